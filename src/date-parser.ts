@@ -0,0 +1,165 @@
+import { moment } from 'obsidian';
+
+type Moment = ReturnType<typeof moment>;
+
+export const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+export interface DateCandidate {
+	date: Moment;   // Resolved date
+	label: string;  // Human readable label, e.g., "Next Monday"
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const RELATIVE_UNITS: Record<string, 'days' | 'weeks' | 'months' | 'years'> = {
+	d: 'days',
+	w: 'weeks',
+	m: 'months',
+	y: 'years'
+};
+
+/**
+ * Natural-language date parsing for the date source
+ * Examples: "today", "yesterday", "next monday", "+3d", "-2w", "2026-10"
+ */
+export class DateParser {
+	/**
+	 * Parse a query into date candidates
+	 * Returns several candidates for partial input (e.g., "next" or "2026-10")
+	 */
+	static parse(query: string, format: string = DEFAULT_DATE_FORMAT, now: Moment = moment()): DateCandidate[] {
+		const today = now.clone().startOf('day');
+		const normalized = query.trim().toLowerCase();
+
+		const candidates: DateCandidate[] = [];
+
+		// Exact date in the configured format
+		if (normalized) {
+			const exact = moment(query.trim(), format, true);
+			if (exact.isValid()) {
+				candidates.push({ date: exact, label: exact.format('dddd') });
+			}
+		}
+
+		// Relative offset: "+3d", "-2w", "+1m", "+1y" (unit defaults to days)
+		const relativeMatch = normalized.match(/^([+-])\s*(\d+)\s*([dwmy])?$/);
+		if (relativeMatch) {
+			const amount = parseInt(relativeMatch[2], 10) * (relativeMatch[1] === '-' ? -1 : 1);
+			const unit = RELATIVE_UNITS[relativeMatch[3] || 'd'];
+			candidates.push({
+				date: today.clone().add(amount, unit),
+				label: this.describeOffset(amount, unit)
+			});
+		}
+
+		// Partial ISO date: "2026", "2026-10", "2026-10-1"
+		if (/^\d{4}(-\d{0,2}(-\d{0,2})?)?$/.test(normalized)) {
+			candidates.push(...this.completeIsoDate(normalized));
+		}
+
+		// Keywords, completed by prefix: "to" -> today, tomorrow
+		for (const [phrase, resolve] of this.getKeywords(today)) {
+			if (phrase.startsWith(normalized)) {
+				candidates.push({ date: resolve(), label: this.capitalize(phrase) });
+			}
+		}
+
+		// Remove duplicates by formatted value, keeping the first label
+		const seen: Set<string> = new Set();
+		return candidates.filter(candidate => {
+			const value = candidate.date.format(format);
+			if (seen.has(value)) return false;
+			seen.add(value);
+			return true;
+		});
+	}
+
+	/**
+	 * Check if a value matches the date format exactly
+	 */
+	static isValidDate(value: string, format: string = DEFAULT_DATE_FORMAT): boolean {
+		return moment(value, format, true).isValid();
+	}
+
+	/**
+	 * Keyword phrases and how to resolve them
+	 * Order matters: it is the order of suggestions for empty/partial input
+	 */
+	private static getKeywords(today: Moment): [string, () => Moment][] {
+		const keywords: [string, () => Moment][] = [
+			['today', () => today.clone()],
+			['yesterday', () => today.clone().subtract(1, 'day')],
+			['tomorrow', () => today.clone().add(1, 'day')],
+			['next week', () => today.clone().add(1, 'week')],
+			['last week', () => today.clone().subtract(1, 'week')],
+			['next month', () => today.clone().add(1, 'month')],
+			['last month', () => today.clone().subtract(1, 'month')]
+		];
+
+		WEEKDAYS.forEach((weekday, index) => {
+			keywords.push([weekday, () => this.nextWeekday(today, index)]);
+			keywords.push([`next ${weekday}`, () => this.nextWeekday(today, index)]);
+			keywords.push([`last ${weekday}`, () => this.lastWeekday(today, index)]);
+		});
+
+		return keywords;
+	}
+
+	/**
+	 * Complete a partial ISO date to concrete dates
+	 * "2026" / "2026-1" -> first day of each matching month
+	 * "2026-10" / "2026-10-1" -> each matching day of that month
+	 */
+	private static completeIsoDate(partial: string): DateCandidate[] {
+		const [yearPart, monthPart] = partial.split('-');
+		const year = parseInt(yearPart, 10);
+		const candidates: DateCandidate[] = [];
+
+		if (monthPart && monthPart.length === 2) {
+			const month = moment({ year, month: parseInt(monthPart, 10) - 1, day: 1 });
+			if (!month.isValid()) return [];
+
+			for (let day = 1; day <= month.daysInMonth(); day++) {
+				const date = month.clone().date(day);
+				if (date.format('YYYY-MM-DD').startsWith(partial)) {
+					candidates.push({ date, label: date.format('dddd') });
+				}
+			}
+		} else {
+			for (let month = 0; month < 12; month++) {
+				const date = moment({ year, month, day: 1 });
+				if (date.format('YYYY-MM').startsWith(partial)) {
+					candidates.push({ date, label: date.format('MMMM YYYY') });
+				}
+			}
+		}
+
+		return candidates;
+	}
+
+	/**
+	 * Next occurrence of a weekday, strictly after today
+	 */
+	private static nextWeekday(today: Moment, weekday: number): Moment {
+		const diff = (weekday - today.day() + 7) % 7 || 7;
+		return today.clone().add(diff, 'days');
+	}
+
+	/**
+	 * Last occurrence of a weekday, strictly before today
+	 */
+	private static lastWeekday(today: Moment, weekday: number): Moment {
+		const diff = (today.day() - weekday + 7) % 7 || 7;
+		return today.clone().subtract(diff, 'days');
+	}
+
+	private static describeOffset(amount: number, unit: string): string {
+		const count = Math.abs(amount);
+		const unitName = count === 1 ? unit.replace(/s$/, '') : unit;
+		return amount >= 0 ? `In ${count} ${unitName}` : `${count} ${unitName} ago`;
+	}
+
+	private static capitalize(text: string): string {
+		return text.replace(/\b\w/g, c => c.toUpperCase());
+	}
+}
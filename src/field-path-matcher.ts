@@ -0,0 +1,126 @@
+import { FieldRule } from './types';
+
+export interface RuleMatch {
+	rule: FieldRule;
+	path: string;  // Concrete path the rule matched, e.g., "Habits Today.Exercises" for "*.Exercises"
+}
+
+/**
+ * Match field paths against rule paths with wildcards
+ * - "*" inside a segment matches any characters ("Habits *" matches "Habits Today")
+ * - "**" as a segment matches any number of segments ("Log.**.notes")
+ * Segments are separated by "." (patterns with wildcards may also use "/")
+ */
+export class FieldPathMatcher {
+	/**
+	 * Check if a rule path contains wildcards
+	 */
+	static isPattern(rulePath: string): boolean {
+		return rulePath.includes('*');
+	}
+
+	/**
+	 * Split a rule path into segments
+	 */
+	static splitPattern(rulePath: string): string[] {
+		const separator = this.isPattern(rulePath) ? /[./]/ : /\./;
+		return rulePath.split(separator).map(s => s.trim()).filter(s => s.length > 0);
+	}
+
+	/**
+	 * Build a rule's field path from its segments
+	 */
+	static joinSegments(segments: string[]): string {
+		return segments.map(s => s.trim()).filter(s => s.length > 0).join('.');
+	}
+
+	/**
+	 * Check if a pattern matches a full field path
+	 */
+	static matches(rulePath: string, fieldPath: string): boolean {
+		const pathSegments = fieldPath.split('.').filter(s => s.length > 0);
+		return this.matchSegments(this.splitPattern(rulePath), pathSegments);
+	}
+
+	/**
+	 * Find the rule for a field path
+	 * The rule may match the path itself or one of its parents
+	 * (e.g., "Habits Yestoday.Exercises.hiking" is under "Habits Yestoday.Exercises")
+	 * Prefers the deepest match, then the most specific pattern
+	 */
+	static findMatchingRule(rules: FieldRule[], fieldPath: string): RuleMatch | null {
+		const pathSegments = fieldPath.split('.').filter(s => s.length > 0);
+
+		let best: RuleMatch | null = null;
+		let bestDepth = 0;
+		let bestSpecificity = -1;
+
+		for (const rule of rules) {
+			if (!rule.enabled) continue;
+
+			const rulePath = rule.fieldPath;
+			if (!rulePath) continue;
+
+			const patternSegments = this.splitPattern(rulePath);
+			const specificity = this.getSpecificity(patternSegments);
+
+			for (let depth = pathSegments.length; depth > 0; depth--) {
+				if (depth < bestDepth) break;
+
+				const prefix = pathSegments.slice(0, depth);
+				if (!this.matchSegments(patternSegments, prefix)) continue;
+
+				if (depth > bestDepth || specificity > bestSpecificity) {
+					best = { rule, path: prefix.join('.') };
+					bestDepth = depth;
+					bestSpecificity = specificity;
+				}
+				break;
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * Specificity score: literal segments count most, "**" least
+	 */
+	private static getSpecificity(patternSegments: string[]): number {
+		return patternSegments.reduce((score, segment) => {
+			if (segment === '**') return score;
+			if (segment === '*') return score + 1;
+			if (segment.includes('*')) return score + 2;
+			return score + 3;
+		}, 0);
+	}
+
+	private static matchSegments(pattern: string[], path: string[]): boolean {
+		if (pattern.length === 0) {
+			return path.length === 0;
+		}
+
+		if (pattern[0] === '**') {
+			// Match zero segments, or consume one and try again
+			return this.matchSegments(pattern.slice(1), path)
+				|| (path.length > 0 && this.matchSegments(pattern, path.slice(1)));
+		}
+
+		if (path.length === 0) {
+			return false;
+		}
+
+		return this.matchSegment(pattern[0], path[0])
+			&& this.matchSegments(pattern.slice(1), path.slice(1));
+	}
+
+	private static matchSegment(pattern: string, segment: string): boolean {
+		if (!pattern.includes('*')) {
+			return pattern === segment;
+		}
+
+		const regex = new RegExp(
+			'^' + pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$'
+		);
+		return regex.test(segment);
+	}
+}
@@ -0,0 +1,92 @@
+import { App, TFile, getAllTags, normalizePath } from 'obsidian';
+import { VaultFilesConfig } from './types';
+import { TagSource } from './tag-source';
+
+/**
+ * Collect files from the vault for link suggestions
+ */
+export class FileSource {
+	// Matching files by filter (folder, extensions, tag); cleared by invalidate()
+	private static cache: Map<string, TFile[]> = new Map();
+
+	/**
+	 * Forget the cached file lists (call when the metadata cache or the vault changes)
+	 */
+	static invalidate(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Get vault files matching the folder, extension and tag filters
+	 * Most recently modified files come first
+	 */
+	static getFiles(app: App, config?: VaultFilesConfig): TFile[] {
+		const folder = config?.folder ? normalizePath(config.folder) : '';
+		const extensions = (config?.extensions || []).map(ext => ext.replace(/^\./, '').toLowerCase());
+		const requiredTag = config?.requiredTag ? TagSource.normalizeTag(config.requiredTag).toLowerCase() : '';
+
+		const cacheKey = [folder, extensions.join(','), requiredTag].join('\n');
+		let files = this.cache.get(cacheKey);
+		if (!files) {
+			files = this.collectFiles(app, folder, extensions, requiredTag);
+			this.cache.set(cacheKey, files);
+		}
+		return files;
+	}
+
+	private static collectFiles(app: App, folder: string, extensions: string[], requiredTag: string): TFile[] {
+		return app.vault.getFiles()
+			.filter(file => {
+				if (folder && folder !== '/' && !file.path.startsWith(folder + '/')) {
+					return false;
+				}
+				if (extensions.length > 0 && !extensions.includes(file.extension.toLowerCase())) {
+					return false;
+				}
+				if (requiredTag && !this.hasTag(app, file, requiredTag)) {
+					return false;
+				}
+				return true;
+			})
+			.sort((a, b) => b.stat.mtime - a.stat.mtime);
+	}
+
+	/**
+	 * Format a file for insertion into YAML
+	 * Wikilinks are quoted since a leading "[" starts a YAML flow sequence
+	 */
+	static formatFile(app: App, file: TFile, sourcePath: string, config?: VaultFilesConfig): string {
+		if (config?.linkFormat === 'path') {
+			return /[:#]/.test(file.path) ? JSON.stringify(file.path) : file.path;
+		}
+
+		const linktext = app.metadataCache.fileToLinktext(file, sourcePath, true);
+		return `"[[${linktext}]]"`;
+	}
+
+	/**
+	 * Get display name for a file (basename for notes, full name otherwise)
+	 */
+	static getDisplayName(file: TFile): string {
+		return file.extension === 'md' ? file.basename : file.name;
+	}
+
+	/**
+	 * Get folder description for a file ("/" for vault root)
+	 */
+	static getFolderDescription(file: TFile): string {
+		const parentPath = file.parent?.path;
+		return parentPath && parentPath !== '/' ? parentPath : '/';
+	}
+
+	/**
+	 * Check if a file has the given tag or a nested tag under it
+	 */
+	private static hasTag(app: App, file: TFile, tag: string): boolean {
+		const cache = app.metadataCache.getFileCache(file);
+		if (!cache) return false;
+
+		const fileTags = (getAllTags(cache) || []).map(t => TagSource.normalizeTag(t).toLowerCase());
+		return fileTags.some(t => t === tag || t.startsWith(tag + '/'));
+	}
+}
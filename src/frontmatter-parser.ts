@@ -1,12 +1,23 @@
-import { Editor, EditorPosition } from 'obsidian';
-import { FrontmatterBounds, FieldPathContext } from './types';
+import { EditorPosition } from 'obsidian';
+import { FrontmatterBounds, FieldPathContext, LineSource } from './types';
 import * as yaml from 'js-yaml';
 
 export class FrontmatterParser {
+	/**
+	 * Wrap plain note text so it can be parsed like an editor
+	 */
+	static fromText(text: string): LineSource {
+		const lines = text.split(/\r?\n/);
+		return {
+			getLine: (line: number) => lines[line] ?? '',
+			lineCount: () => lines.length
+		};
+	}
+
 	/**
 	 * Get frontmatter boundaries in the document
 	 */
-	static getFrontmatterBounds(editor: Editor): FrontmatterBounds | null {
+	static getFrontmatterBounds(editor: LineSource): FrontmatterBounds | null {
 		const firstLine = editor.getLine(0);
 		if (!firstLine || firstLine.trim() !== '---') {
 			return null;
@@ -27,7 +38,7 @@ export class FrontmatterParser {
 	/**
 	 * Check if cursor is within frontmatter
 	 */
-	static isInFrontmatter(cursor: EditorPosition, editor: Editor): boolean {
+	static isInFrontmatter(cursor: EditorPosition, editor: LineSource): boolean {
 		const bounds = this.getFrontmatterBounds(editor);
 		if (!bounds) return false;
 
@@ -42,6 +53,70 @@ export class FrontmatterParser {
 		return match ? match[1].length : 0;
 	}
 
+	/**
+	 * Check if a line is a YAML list item (e.g., "  - value")
+	 */
+	static isListItem(line: string): boolean {
+		return /^\s*-(\s|$)/.test(line);
+	}
+
+	/**
+	 * Get the start column of a list item's value (after "- ")
+	 * Returns -1 if the line is not a list item
+	 */
+	static getListItemValueStart(line: string): number {
+		const match = line.match(/^(\s*-\s*)/);
+		return match && this.isListItem(line) ? match[1].length : -1;
+	}
+
+	/**
+	 * Remove surrounding quotes from a YAML scalar (e.g., '"#tag"' -> '#tag')
+	 */
+	static unquote(value: string): string {
+		const trimmed = value.trim();
+		if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+			try {
+				return JSON.parse(trimmed);
+			} catch (error) {
+				return trimmed.slice(1, -1);
+			}
+		}
+		if (trimmed.length >= 2 && trimmed.startsWith("'") && trimmed.endsWith("'")) {
+			return trimmed.slice(1, -1).replace(/''/g, "'");
+		}
+		return trimmed;
+	}
+
+	/**
+	 * Quote a value when YAML would misread it
+	 * e.g., "10:30", "#tag", "[[Note]]", "{draft}"
+	 * Flow sequences also need quotes around commas and brackets
+	 */
+	static quote(value: string, inFlow: boolean = false): string {
+		// Already quoted (e.g., '"[[Note]]"')
+		if (/^(".*"|'.*')$/.test(value)) return value;
+
+		const needsQuotes = /[:#]|^[\[\]{}"'!&*>|%@`]|^- |^\s|\s$/.test(value)
+			|| (inFlow && /[,\[\]{}]/.test(value));
+		return needsQuotes ? JSON.stringify(value) : value;
+	}
+
+	/**
+	 * Split a flow sequence into its items (e.g., "[a, "b c"]" -> ["a", "b c"])
+	 * Also accepts an unterminated sequence while it is being typed
+	 */
+	static parseFlowSequence(text: string): string[] {
+		let inner = text.trim();
+		if (!inner.startsWith('[')) return [];
+
+		const closeIndex = inner.lastIndexOf(']');
+		inner = closeIndex === -1 ? inner.substring(1) : inner.substring(1, closeIndex);
+
+		return (inner.match(/\s*"(?:[^"\\]|\\.)*"|\s*'(?:[^']|'')*'|[^,]+/g) || [])
+			.map(item => this.unquote(item))
+			.filter(item => item !== '');
+	}
+
 	/**
 	 * Extract field name from a line (e.g., "  Exercises:" -> "Exercises")
 	 * Supports English, Chinese, and other Unicode characters
@@ -62,7 +137,7 @@ export class FrontmatterParser {
 	 * Returns path like "Habits Yestoday.Exercises"
 	 * Uses YAML parsing with heuristic fallback
 	 */
-	static getCurrentFieldPath(cursor: EditorPosition, editor: Editor): FieldPathContext | null {
+	static getCurrentFieldPath(cursor: EditorPosition, editor: LineSource): FieldPathContext | null {
 		const bounds = this.getFrontmatterBounds(editor);
 		if (!bounds) return null;
 
@@ -97,7 +172,7 @@ export class FrontmatterParser {
 		yamlObj: Record<string, any>,
 		cursor: EditorPosition,
 		frontmatterStart: number,
-		editor: Editor
+		editor: LineSource
 	): FieldPathContext | null {
 		const currentLine = editor.getLine(cursor.line);
 		const currentIndent = this.getIndent(currentLine);
@@ -106,8 +181,11 @@ export class FrontmatterParser {
 		let searchLine = cursor.line;
 		let expectedParentIndent = currentIndent - 2;
 
+		// List items belong to the nearest field at the same or lower indent
+		let listItemIndent = this.isListItem(currentLine) ? currentIndent : -1;
+
 		const currentField = this.extractFieldName(currentLine);
-		if (currentField) {
+		if (currentField && listItemIndent === -1) {
 			// Always add the current field to the path without verification
 			// The field might not exist at the top level (e.g., nested field)
 			// We verify the full path later
@@ -127,6 +205,14 @@ export class FrontmatterParser {
 			const indent = this.getIndent(line);
 			const fieldName = this.extractFieldName(line);
 
+			if (listItemIndent !== -1) {
+				if (fieldName && !this.isListItem(line) && indent <= listItemIndent) {
+					path.unshift(fieldName);
+					expectedParentIndent = indent - 2;
+					listItemIndent = -1;
+				}
+				continue;
+			}
 
 			if (fieldName && indent === expectedParentIndent) {
 				// Add parent field to path (trust indentation structure)
@@ -188,7 +274,7 @@ export class FrontmatterParser {
 	 */
 	private static getCurrentFieldPathHeuristic(
 		cursor: EditorPosition,
-		editor: Editor,
+		editor: LineSource,
 		bounds: FrontmatterBounds,
 		yamlObj?: Record<string, any> | null
 	): FieldPathContext | null {
@@ -199,8 +285,10 @@ export class FrontmatterParser {
 		let searchLine = cursor.line;
 		let expectedParentIndent = currentIndent - 2;
 
+		let listItemIndent = this.isListItem(currentLine) ? currentIndent : -1;
+
 		const currentField = this.extractFieldName(currentLine);
-		if (currentField) {
+		if (currentField && listItemIndent === -1) {
 			path.unshift(currentField);
 		} else {
 			expectedParentIndent = currentIndent;
@@ -214,6 +302,15 @@ export class FrontmatterParser {
 			const indent = this.getIndent(line);
 			const fieldName = this.extractFieldName(line);
 
+			if (listItemIndent !== -1) {
+				if (fieldName && !this.isListItem(line) && indent <= listItemIndent) {
+					path.unshift(fieldName);
+					expectedParentIndent = indent - 2;
+					listItemIndent = -1;
+				}
+				continue;
+			}
+
 			if (fieldName && indent === expectedParentIndent) {
 				path.unshift(fieldName);
 				expectedParentIndent = indent - 2;
@@ -241,7 +338,7 @@ export class FrontmatterParser {
 	 * For example, for "Habits Yestoday.Exercises", get ["push_up", "hiking"]
 	 * Uses YAML parsing with heuristic fallback
 	 */
-	static getExistingSubItemsByPath(fieldPath: string, editor: Editor): string[] {
+	static getExistingSubItemsByPath(fieldPath: string, editor: LineSource): string[] {
 		const bounds = this.getFrontmatterBounds(editor);
 		if (!bounds) return [];
 
@@ -275,7 +372,7 @@ export class FrontmatterParser {
 	 * For example, under "Exercises:", get ["push_up", "hiking"]
 	 * Uses YAML parsing with heuristic fallback
 	 */
-	static getExistingSubItems(fieldLine: number, editor: Editor): string[] {
+	static getExistingSubItems(fieldLine: number, editor: LineSource): string[] {
 		const bounds = this.getFrontmatterBounds(editor);
 		if (!bounds) return [];
 
@@ -331,13 +428,7 @@ export class FrontmatterParser {
 		}
 
 
-		// Get keys from current level if it's an object (not an array)
-		if (typeof current === 'object' && current !== null && !Array.isArray(current)) {
-			const keys = Object.keys(current);
-			return keys;
-		}
-
-		return [];
+		return this.getSubItemsFromValue(current);
 	}
 
 	/**
@@ -352,10 +443,23 @@ export class FrontmatterParser {
 			return [];
 		}
 
-		const field = yamlObj[fieldName];
+		return this.getSubItemsFromValue(yamlObj[fieldName]);
+	}
 
-		if (typeof field === 'object' && field !== null && !Array.isArray(field)) {
-			return Object.keys(field);
+	/**
+	 * Sub-items of a parsed YAML value
+	 * - Mapping: its keys
+	 * - Sequence: its scalar items
+	 */
+	private static getSubItemsFromValue(value: any): string[] {
+		if (Array.isArray(value)) {
+			return value
+				.filter(item => typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean')
+				.map(item => String(item));
+		}
+
+		if (typeof value === 'object' && value !== null) {
+			return Object.keys(value);
 		}
 
 		return [];
@@ -364,18 +468,36 @@ export class FrontmatterParser {
 	/**
 	 * Heuristic sub-items detection (indentation-based, used as fallback)
 	 */
-	private static getExistingSubItemsHeuristic(fieldLine: number, editor: Editor, bounds: FrontmatterBounds): string[] {
+	private static getExistingSubItemsHeuristic(fieldLine: number, editor: LineSource, bounds: FrontmatterBounds): string[] {
 		const fieldLineText = editor.getLine(fieldLine);
 		const fieldIndent = this.getIndent(fieldLineText);
 		const expectedSubIndent = fieldIndent + 2;
 
+		// Flow sequence on the field line: "tags: [a, b]"
+		const inlineValue = fieldLineText.substring(fieldLineText.indexOf(':') + 1).trim();
+		if (inlineValue.startsWith('[')) {
+			return this.parseFlowSequence(inlineValue);
+		}
+
 		const subItems: string[] = [];
 		let searchLine = fieldLine + 1;
+		let listIndent = -1;
 
-		while (searchLine <= bounds.end) {
+		while (searchLine < bounds.end) {
 			const line = editor.getLine(searchLine);
 			const indent = this.getIndent(line);
 
+			// Block sequence items may sit at the field's own indent ("tags:\n- a")
+			if (this.isListItem(line) && indent >= fieldIndent && (listIndent === -1 || indent === listIndent)) {
+				listIndent = indent;
+				const item = this.unquote(line.substring(this.getListItemValueStart(line)));
+				if (item) {
+					subItems.push(item);
+				}
+				searchLine++;
+				continue;
+			}
+
 			// Stop if we hit a field at same or lower indent level
 			if (indent <= fieldIndent && line.trim() !== '') {
 				break;
@@ -399,7 +521,7 @@ export class FrontmatterParser {
 	 * Get the partial text user has typed at cursor position
 	 * Used for filtering suggestions
 	 */
-	static getPartialInput(cursor: EditorPosition, editor: Editor): string {
+	static getPartialInput(cursor: EditorPosition, editor: LineSource): string {
 		const line = editor.getLine(cursor.line);
 		const beforeCursor = line.substring(0, cursor.ch);
 
@@ -423,7 +545,7 @@ export class FrontmatterParser {
 	 * - Must be at correct indent level for sub-item
 	 * - Must be empty or have partial input
 	 */
-	static isValidTriggerPosition(cursor: EditorPosition, editor: Editor, expectedFieldPath: string): boolean {
+	static isValidTriggerPosition(cursor: EditorPosition, editor: LineSource, expectedFieldPath: string): boolean {
 		const context = this.getCurrentFieldPath(cursor, editor);
 		if (!context) return false;
 
@@ -449,7 +571,7 @@ export class FrontmatterParser {
 	 * Find the line number where a field path starts
 	 * For example, find line for "Habits Yestoday.Exercises"
 	 */
-	private static findFieldLineInEditor(fieldPath: string, editor: Editor, bounds: FrontmatterBounds): number | null {
+	private static findFieldLineInEditor(fieldPath: string, editor: LineSource, bounds: FrontmatterBounds): number | null {
 		const parts = fieldPath.split('.');
 		if (parts.length === 0) return null;
 
@@ -0,0 +1,165 @@
+import { Editor } from 'obsidian';
+import { FieldRule } from './types';
+import { FrontmatterParser } from './frontmatter-parser';
+import { FieldPathMatcher } from './field-path-matcher';
+
+export interface TemplateResult {
+	lines: string[];  // Frontmatter lines, without the --- delimiters
+	added: number;    // Number of properties added
+}
+
+/**
+ * Build a frontmatter skeleton from rules and merge it into existing frontmatter
+ * Existing properties are never changed, only missing ones are added
+ */
+export class FrontmatterTemplate {
+	/**
+	 * Property paths to create for a set of rules
+	 * Wildcard paths can't be turned into concrete properties and are skipped
+	 */
+	static getPaths(rules: FieldRule[]): string[][] {
+		const seen: Set<string> = new Set();
+		const paths: string[][] = [];
+
+		for (const rule of rules) {
+			const rulePath = rule.fieldPath;
+			if (!rule.enabled || !rulePath || FieldPathMatcher.isPattern(rulePath)) continue;
+			if (seen.has(rulePath)) continue;
+
+			seen.add(rulePath);
+			paths.push(FieldPathMatcher.splitPattern(rulePath));
+		}
+
+		return paths;
+	}
+
+	/**
+	 * Add missing paths to frontmatter lines
+	 * Properties that already hold a value (e.g., "Mood: good" or a list) are not nested into
+	 */
+	static merge(frontmatterLines: string[], paths: string[][]): TemplateResult {
+		const lines = [...frontmatterLines];
+		let added = 0;
+
+		for (const path of paths) {
+			// Block of the current parent: [start, end) line range, plus its indent
+			let blockStart = 0;
+			let blockEnd = lines.length;
+			let parentIndent = -2;
+
+			for (let depth = 0; depth < path.length; depth++) {
+				const childIndent = this.getChildIndent(lines, blockStart, blockEnd, parentIndent);
+				const found = this.findField(lines, blockStart, blockEnd, childIndent, path[depth]);
+
+				if (found === -1) {
+					// Insert the rest of the path after the last non-empty line of the block
+					let insertAt = blockEnd;
+					while (insertAt > blockStart && lines[insertAt - 1].trim() === '') {
+						insertAt--;
+					}
+
+					const newLines = path.slice(depth).map((segment, offset) =>
+						`${' '.repeat(childIndent + offset * 2)}${segment}:`
+					);
+					lines.splice(insertAt, 0, ...newLines);
+					added += newLines.length;
+					break;
+				}
+
+				// A value on the field line ("Mood: good", "tags: [a]") can't hold nested properties
+				if (depth < path.length - 1 && this.hasInlineValue(lines[found])) break;
+
+				blockStart = found + 1;
+				blockEnd = this.getBlockEnd(lines, found);
+				parentIndent = childIndent;
+
+				// Children written as a list can't hold nested properties either
+				if (depth < path.length - 1 && this.isListBlock(lines, blockStart, blockEnd)) break;
+			}
+		}
+
+		return { lines, added };
+	}
+
+	/**
+	 * Insert the skeleton into an editor as a single change
+	 * Creates the frontmatter block if the note has none
+	 * Returns the number of added properties
+	 */
+	static applyToEditor(editor: Editor, rules: FieldRule[]): number {
+		const paths = this.getPaths(rules);
+		const bounds = FrontmatterParser.getFrontmatterBounds(editor);
+
+		if (!bounds) {
+			const { lines, added } = this.merge([], paths);
+			if (added > 0) {
+				editor.replaceRange(['---', ...lines, '---', ''].join('\n'), { line: 0, ch: 0 });
+			}
+			return added;
+		}
+
+		const existing: string[] = [];
+		for (let i = bounds.start + 1; i < bounds.end; i++) {
+			existing.push(editor.getLine(i));
+		}
+
+		const { lines, added } = this.merge(existing, paths);
+		if (added > 0) {
+			// Replace the frontmatter body between the delimiters
+			const from = { line: bounds.start + 1, ch: 0 };
+			const to = { line: bounds.end, ch: 0 };
+			editor.replaceRange(lines.map(line => `${line}\n`).join(''), from, to);
+		}
+		return added;
+	}
+
+	/**
+	 * Indent of properties inside a block
+	 * Follows the existing children, otherwise two more than the parent
+	 */
+	private static getChildIndent(lines: string[], start: number, end: number, parentIndent: number): number {
+		for (let i = start; i < end; i++) {
+			if (lines[i].trim() === '' || FrontmatterParser.isListItem(lines[i])) continue;
+			return FrontmatterParser.getIndent(lines[i]);
+		}
+		return parentIndent + 2;
+	}
+
+	private static findField(lines: string[], start: number, end: number, indent: number, name: string): number {
+		for (let i = start; i < end; i++) {
+			if (FrontmatterParser.getIndent(lines[i]) !== indent || FrontmatterParser.isListItem(lines[i])) continue;
+			if (FrontmatterParser.extractFieldName(lines[i]) === name) {
+				return i;
+			}
+		}
+		return -1;
+	}
+
+	/**
+	 * End (exclusive) of the lines nested under a field line
+	 * Block sequences may sit at the field's own indent ("tags:\n- a")
+	 */
+	private static getBlockEnd(lines: string[], fieldLine: number): number {
+		const fieldIndent = FrontmatterParser.getIndent(lines[fieldLine]);
+
+		let end = fieldLine + 1;
+		while (end < lines.length) {
+			const line = lines[end];
+			const indent = FrontmatterParser.getIndent(line);
+			const isSequenceItem = FrontmatterParser.isListItem(line) && indent === fieldIndent;
+			if (line.trim() !== '' && indent <= fieldIndent && !isSequenceItem) break;
+			end++;
+		}
+		return end;
+	}
+
+	private static hasInlineValue(line: string): boolean {
+		const value = line.substring(line.indexOf(':') + 1).trim();
+		return value !== '' && !value.startsWith('#');
+	}
+
+	private static isListBlock(lines: string[], start: number, end: number): boolean {
+		const first = lines.slice(start, end).find(line => line.trim() !== '');
+		return first !== undefined && FrontmatterParser.isListItem(first);
+	}
+}
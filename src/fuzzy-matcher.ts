@@ -0,0 +1,94 @@
+export interface FuzzyMatch {
+	score: number;      // Higher is better
+	indices: number[];  // Matched character positions in the text
+}
+
+const SCORE_MATCH = 16;          // Each matched character
+const BONUS_CONSECUTIVE = 12;    // Match right after the previous match
+const BONUS_BOUNDARY = 10;       // Match at the start of a word ("push_ups" -> "u" in "ups")
+const BONUS_FIRST = 8;           // Match at the very start of the text
+const PENALTY_GAP = 2;           // Each skipped character between matches
+const MAX_PENALTY_GAP = 6;
+const MAX_PENALTY_LEADING = 5;   // Skipped characters before the first match
+
+/**
+ * Subsequence matching with scoring
+ * "pshu" matches "push_ups"; prefix and word-boundary hits rank higher
+ */
+export class FuzzyMatcher {
+	/**
+	 * Match a query against a text
+	 * Spaces in the query are ignored, so "push up" matches "push_ups"
+	 * Returns null if the query is not a subsequence of the text
+	 */
+	static match(query: string, text: string, caseSensitive: boolean = false): FuzzyMatch | null {
+		const q = (caseSensitive ? query : query.toLowerCase()).replace(/\s+/g, '');
+		const t = caseSensitive ? text : text.toLowerCase();
+
+		if (q.length === 0) return { score: 0, indices: [] };
+		if (q.length > t.length) return null;
+
+		// best[i][j]: best score with query[i] matched at text[j]
+		const best: number[][] = [];
+		const previous: number[][] = [];
+
+		for (let i = 0; i < q.length; i++) {
+			best.push(new Array(t.length).fill(-Infinity));
+			previous.push(new Array(t.length).fill(-1));
+
+			for (let j = i; j < t.length; j++) {
+				if (t[j] !== q[i]) continue;
+
+				const charScore = SCORE_MATCH + this.getBonus(text, j);
+
+				if (i === 0) {
+					best[i][j] = charScore - Math.min(j, MAX_PENALTY_LEADING);
+					continue;
+				}
+
+				for (let k = i - 1; k < j; k++) {
+					if (best[i - 1][k] === -Infinity) continue;
+
+					const score = best[i - 1][k] + charScore + (k === j - 1
+						? BONUS_CONSECUTIVE
+						: -Math.min((j - k - 1) * PENALTY_GAP, MAX_PENALTY_GAP));
+					if (score > best[i][j]) {
+						best[i][j] = score;
+						previous[i][j] = k;
+					}
+				}
+			}
+		}
+
+		// Pick the best end position and walk back
+		const last = q.length - 1;
+		let end = -1;
+		for (let j = 0; j < t.length; j++) {
+			if (best[last][j] > (end === -1 ? -Infinity : best[last][end])) {
+				end = j;
+			}
+		}
+		if (end === -1) return null;
+
+		const indices: number[] = [];
+		for (let i = last, j = end; i >= 0; j = previous[i][j], i--) {
+			indices.unshift(j);
+		}
+
+		return { score: best[last][end], indices };
+	}
+
+	/**
+	 * Bonus for matching at a word start: text start, after a separator, or a camelCase hump
+	 */
+	private static getBonus(text: string, index: number): number {
+		if (index === 0) return BONUS_BOUNDARY + BONUS_FIRST;
+
+		const prev = text[index - 1];
+		const current = text[index];
+		if (/[\s_\-./]/.test(prev)) return BONUS_BOUNDARY;
+		if (/[a-z]/.test(prev) && /[A-Z]/.test(current)) return BONUS_BOUNDARY;
+
+		return 0;
+	}
+}
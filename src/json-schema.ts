@@ -0,0 +1,639 @@
+import { DurationFormat, FieldRule, OptionItem, OutputShape, TimeFormat, ValueConfig, generateRuleId } from './types';
+import { FieldPathMatcher } from './field-path-matcher';
+import { DURATION_FORMATS, TIME_FORMATS, TimeParser } from './time-parser';
+
+type JsonSchema = Record<string, any>;
+
+export interface SchemaExportResult {
+	schema: JsonSchema;
+	skipped: string[];  // Rule paths that can't be expressed as properties (wildcards)
+}
+
+export interface SchemaImportResult {
+	rules: FieldRule[];
+	unsupported: string[];  // Constructs that were not imported, e.g., 'Mood: "anyOf" is not supported'
+}
+
+const SCHEMA_DRAFT = 'http://json-schema.org/draft-07/schema#';
+
+// Keywords that are read on import (plus "x-" extensions written on export)
+const KNOWN_KEYWORDS = new Set([
+	'$schema', '$id', 'title', 'description', 'type', 'properties', 'additionalProperties', 'items',
+	'enum', 'oneOf', 'const', 'minimum', 'maximum', 'multipleOf', 'pattern', 'minLength', 'maxLength', 'format', 'default',
+	'x-rule', 'x-units', 'x-canonical-unit', 'x-step', 'x-precision', 'x-icon', 'x-group',
+	'x-option-type', 'x-format', 'x-min', 'x-max'
+]);
+
+// Rule settings without a JSON Schema equivalent, kept in "x-rule" for round trips
+type RuleExtras = Partial<Pick<FieldRule,
+	'enabled' | 'sourceType' | 'multiSelect' | 'outputShape' | 'optionSort' | 'ruleSet' | 'scope'
+	| 'displayFormat' | 'indent' | 'tagsConfig' | 'filesConfig' | 'dateConfig'>>;
+
+// Extras copied onto imported rules as they are (the others get defaults)
+const RULE_EXTRA_KEYS: (keyof RuleExtras)[] = [
+	'multiSelect', 'outputShape', 'optionSort', 'ruleSet', 'scope', 'indent', 'tagsConfig', 'filesConfig', 'dateConfig'
+];
+
+/**
+ * Convert rules to and from JSON Schema (draft-07)
+ * - Rule paths become nested "properties"
+ * - Inline options become properties (sub-keys) or "enum" values (lists and single values)
+ * - Option types, units and value validation map to "type", "enum", "minimum"/"maximum",
+ *   "pattern" and "minLength"/"maxLength"
+ * Settings without a JSON Schema keyword (source type, output format, icons...) are kept in "x-" keywords
+ */
+export class JsonSchemaConverter {
+	/**
+	 * Build a schema document from rules
+	 * Disabled rules are included (marked in "x-rule"); wildcard rules are skipped
+	 */
+	static exportRules(rules: FieldRule[]): SchemaExportResult {
+		const schema: JsonSchema = {
+			$schema: SCHEMA_DRAFT,
+			title: 'Frontmatter',
+			type: 'object',
+			properties: {}
+		};
+		const skipped: string[] = [];
+
+		for (const rule of rules) {
+			const rulePath = rule.fieldPath || FieldPathMatcher.joinSegments(rule.pathSegments || []);
+			if (!rulePath) continue;
+			if (FieldPathMatcher.isPattern(rulePath)) {
+				skipped.push(rulePath);
+				continue;
+			}
+
+			const segments = FieldPathMatcher.splitPattern(rulePath);
+			let parent: JsonSchema | null = schema;
+			for (const segment of segments.slice(0, -1)) {
+				const next: JsonSchema = parent.properties[segment] || { type: 'object', properties: {} };
+				// Properties can't be nested under a list or a single value
+				if (!this.isObjectSchema(next)) {
+					parent = null;
+					break;
+				}
+				next.properties = next.properties || {};
+				parent = parent.properties[segment] = next;
+			}
+			if (!parent) {
+				skipped.push(rulePath);
+				continue;
+			}
+
+			const name = segments[segments.length - 1];
+			const existing: JsonSchema | undefined = parent.properties[name];
+			const ruleSchema = this.ruleToSchema(rule);
+
+			// Keep properties of deeper rules that were exported first
+			if (existing?.properties && ruleSchema.type === 'object') {
+				ruleSchema.properties = { ...ruleSchema.properties, ...existing.properties };
+			} else if (existing?.properties) {
+				skipped.push(...Object.keys(existing.properties).map(key => `${rulePath}.${key}`));
+			}
+			parent.properties[name] = ruleSchema;
+		}
+
+		return { schema, skipped };
+	}
+
+	/**
+	 * Build rules from a schema document
+	 * Object properties with plain values (numbers, text, enums) become a rule with inline options,
+	 * other properties become rules of their own. Constraints on an option's value
+	 * (e.g., "minimum") become an extra rule for that sub-key
+	 */
+	static importSchema(schema: JsonSchema): SchemaImportResult {
+		const result: SchemaImportResult = { rules: [], unsupported: [] };
+
+		if (!this.isObject(schema) || !this.isObject(schema.properties)) {
+			result.unsupported.push('The schema has no "properties" to import');
+			return result;
+		}
+
+		this.reportUnknownKeywords(schema, [], result);
+		this.importProperties(schema, [], false, result);
+		return result;
+	}
+
+	/**
+	 * Schema for one rule
+	 */
+	private static ruleToSchema(rule: FieldRule): JsonSchema {
+		const shape = this.getShape(rule);
+		const options = rule.options || [];
+		let node: JsonSchema;
+
+		if (rule.sourceType === 'date') {
+			const dateSchema = { type: 'string', format: 'date' };
+			node = shape === 'block-list' || shape === 'flow-list' ? { type: 'array', items: dateSchema } : { ...dateSchema };
+		} else if (rule.sourceType !== 'inline') {
+			node = shape === 'scalar' || shape === 'mapping' ? { type: 'string' } : { type: 'array', items: { type: 'string' } };
+		} else if (shape === 'mapping') {
+			node = { type: 'object', properties: {} };
+			for (const option of options) {
+				node.properties[option.key] = this.optionToSchema(option);
+			}
+			if (rule.valueConfig) {
+				node.additionalProperties = this.valueConfigToSchema(rule.valueConfig);
+			}
+		} else if (options.length > 0) {
+			const values = this.optionsToEnum(options);
+			node = shape === 'scalar' ? values : { type: 'array', items: values };
+		} else {
+			node = rule.valueConfig ? this.valueConfigToSchema(rule.valueConfig) : {};
+		}
+
+		if (rule.description) {
+			node.description = rule.description;
+		}
+
+		const extras = this.getRuleExtras(rule);
+		if (Object.keys(extras).length > 0) {
+			node['x-rule'] = extras;
+		}
+		return node;
+	}
+
+	/**
+	 * Schema for an inline option used as a sub-key
+	 */
+	private static optionToSchema(option: OptionItem): JsonSchema {
+		let node: JsonSchema;
+		if (option.type === 'number') {
+			node = option.units && option.units.length > 0
+				? { type: ['number', 'string'], pattern: this.getUnitPattern(option.units), 'x-units': option.units }
+				: { type: option.integer ? 'integer' : 'number' };
+			if (option.canonicalUnit) node['x-canonical-unit'] = option.canonicalUnit;
+			this.addNumberConstraints(node, option);
+		} else if (option.type === 'boolean') {
+			node = { type: 'boolean' };
+		} else if (option.type === 'enum') {
+			node = { enum: option.enumValues || [] };
+		} else if (option.type === 'duration' || option.type === 'time') {
+			node = this.timeOptionToSchema(option);
+		} else {
+			node = {};
+		}
+
+		this.addOptionDetails(node, option);
+		if (option.defaultValue) {
+			node.default = option.defaultValue;
+		}
+		return node;
+	}
+
+	/**
+	 * Option keys as the allowed values of a list or single value
+	 * Uses "oneOf" with "const" when options have descriptions, icons or groups
+	 */
+	private static optionsToEnum(options: OptionItem[]): JsonSchema {
+		const hasDetails = options.some(option => option.description || option.icon || option.group);
+		if (!hasDetails) {
+			return { enum: options.map(option => option.key) };
+		}
+
+		return {
+			oneOf: options.map(option => {
+				const node: JsonSchema = { const: option.key };
+				this.addOptionDetails(node, option);
+				return node;
+			})
+		};
+	}
+
+	/**
+	 * Range, step and precision of a number option
+	 * "multipleOf" counts from 0, so steps counted from another minimum are kept in "x-step"
+	 */
+	private static addNumberConstraints(node: JsonSchema, option: OptionItem): void {
+		if (option.min !== undefined) node.minimum = option.min;
+		if (option.max !== undefined) node.maximum = option.max;
+		if (option.step) {
+			node[(option.min ?? 0) === 0 ? 'multipleOf' : 'x-step'] = option.step;
+		}
+		if (option.precision !== undefined) node['x-precision'] = option.precision;
+		// Whole numbers with units can't use "type": "integer"
+		if (option.integer && Array.isArray(node.type) && node.multipleOf === undefined) node.multipleOf = 1;
+	}
+
+	/**
+	 * Duration and time options are strings with no standard keyword for their format or bounds
+	 * Bounds are written like values: "x-min": "4h", "x-max": "12h"
+	 */
+	private static timeOptionToSchema(option: OptionItem): JsonSchema {
+		const format = (value: number) => option.type === 'duration'
+			? TimeParser.formatDuration(value, option.format as DurationFormat)
+			: TimeParser.formatTime(value, option.format as TimeFormat);
+
+		const node: JsonSchema = { type: 'string', 'x-option-type': option.type };
+		if (option.format) node['x-format'] = option.format;
+		if (option.min !== undefined) node['x-min'] = format(option.min);
+		if (option.max !== undefined) node['x-max'] = format(option.max);
+		return node;
+	}
+
+	private static addOptionDetails(node: JsonSchema, option: OptionItem): void {
+		if (option.description) node.description = option.description;
+		if (option.icon) node['x-icon'] = option.icon;
+		if (option.group) node['x-group'] = option.group;
+	}
+
+	/**
+	 * Schema for rule-level value validation
+	 */
+	private static valueConfigToSchema(config: ValueConfig): JsonSchema {
+		const validation = config.validation || {};
+
+		if (config.type === 'number') {
+			const units = (config.units || []).map(unit => unit.unit);
+			const numberType = validation.allowDecimal === false ? 'integer' : 'number';
+			const node: JsonSchema = units.length > 0
+				? { type: [numberType, 'string'], pattern: this.getUnitPattern(units), 'x-units': units }
+				: { type: numberType };
+			if (validation.min !== undefined) node.minimum = validation.min;
+			if (validation.max !== undefined) node.maximum = validation.max;
+			return node;
+		}
+
+		if (config.type === 'text') {
+			const node: JsonSchema = { type: 'string' };
+			if (validation.minLength !== undefined) node.minLength = validation.minLength;
+			if (validation.maxLength !== undefined) node.maxLength = validation.maxLength;
+			if (validation.pattern) node.pattern = validation.pattern;
+			return node;
+		}
+
+		return {};
+	}
+
+	/**
+	 * Pattern for a number followed by one of the units, e.g., "10 km"
+	 */
+	private static getUnitPattern(units: string[]): string {
+		const escaped = units.map(unit => unit.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+		return `^-?\\d+(\\.\\d+)?\\s*(${escaped.join('|')})?$`;
+	}
+
+	private static getShape(rule: FieldRule): OutputShape {
+		if (rule.outputShape) return rule.outputShape;
+		return rule.sourceType === 'vault-tags' || rule.sourceType === 'vault-files' ? 'block-list' : 'mapping';
+	}
+
+	private static getRuleExtras(rule: FieldRule): RuleExtras {
+		const extras: RuleExtras = {};
+		if (!rule.enabled) extras.enabled = false;
+		if (rule.sourceType !== 'inline') extras.sourceType = rule.sourceType;
+		if (rule.multiSelect) extras.multiSelect = true;
+		if (rule.outputShape) extras.outputShape = rule.outputShape;
+		if (rule.optionSort && rule.optionSort !== 'manual') extras.optionSort = rule.optionSort;
+		if (rule.ruleSet) extras.ruleSet = rule.ruleSet;
+		if (rule.scope) extras.scope = rule.scope;
+		if (rule.indent !== undefined) extras.indent = rule.indent;
+		if (rule.tagsConfig) extras.tagsConfig = rule.tagsConfig;
+		if (rule.filesConfig) extras.filesConfig = rule.filesConfig;
+		if (rule.dateConfig) extras.dateConfig = rule.dateConfig;
+		if (rule.displayFormat && !(rule.displayFormat.showDescription && rule.displayFormat.showIcon)) {
+			extras.displayFormat = rule.displayFormat;
+		}
+		return extras;
+	}
+
+	/**
+	 * Import the properties of an object schema
+	 * `parentIsRule` tells whether plain-valued properties were already taken as the parent's options
+	 */
+	private static importProperties(node: JsonSchema, path: string[], parentIsRule: boolean, result: SchemaImportResult): void {
+		const properties = this.isObject(node.properties) ? node.properties : {};
+
+		for (const [key, child] of Object.entries<any>(properties)) {
+			const childPath = [...path, key];
+			if (!this.isObject(child)) {
+				result.unsupported.push(`${this.formatPath(childPath)}: not a schema object`);
+				continue;
+			}
+
+			if (this.isObjectSchema(child)) {
+				// Objects with plain values hold a rule's sub-keys; objects of objects only add a level
+				const isRule = !!child['x-rule'] || this.hasPlainProperties(child) || this.isObject(child.additionalProperties);
+				if (isRule) {
+					this.addRule(child, childPath, result);
+				} else {
+					this.reportUnknownKeywords(child, childPath, result);
+				}
+				this.importProperties(child, childPath, isRule, result);
+			} else if (!parentIsRule || child['x-rule']) {
+				this.addRule(child, childPath, result);
+			}
+		}
+	}
+
+	/**
+	 * Add the rule of a property before the rules created for its sub-keys
+	 */
+	private static addRule(node: JsonSchema, path: string[], result: SchemaImportResult): void {
+		const index = result.rules.length;
+		const rule = this.nodeToRule(node, path, result);
+		result.rules.splice(index, 0, rule);
+	}
+
+	/**
+	 * Build a rule from a property schema
+	 */
+	private static nodeToRule(node: JsonSchema, path: string[], result: SchemaImportResult): FieldRule {
+		const extras: RuleExtras = this.isObject(node['x-rule']) ? node['x-rule'] : {};
+		const types = this.getTypes(node);
+		const rule: FieldRule = {
+			id: generateRuleId(),
+			enabled: extras.enabled !== false,
+			pathSegments: path,
+			fieldPath: FieldPathMatcher.joinSegments(path),
+			sourceType: extras.sourceType || 'inline',
+			displayFormat: extras.displayFormat || { showDescription: true, showIcon: true },
+			description: typeof node.description === 'string' ? node.description : ''
+		};
+
+		const copied: Partial<FieldRule> = this.pickDefined(extras, RULE_EXTRA_KEYS);
+		Object.assign(rule, copied);
+
+		// Defaults belong to sub-keys (options), not to a whole property
+		this.reportUnknownKeywords(node, path, result, ['default']);
+
+		if (this.isObjectSchema(node)) {
+			rule.options = [];
+			for (const [key, child] of Object.entries<any>(node.properties || {})) {
+				if (!this.isObject(child) || this.isObjectSchema(child) || child['x-rule']) continue;
+				rule.options.push(this.importOption(child, key, [...path, key], result));
+			}
+			if (this.isObject(node.additionalProperties)) {
+				rule.valueConfig = this.importValueConfig(node.additionalProperties, [...path, '*'], result);
+			}
+			return rule;
+		}
+
+		if (types.includes('array')) {
+			const items = node.items;
+			if (!this.isObject(items)) {
+				result.unsupported.push(`${this.formatPath(path)}: "items" must be a single schema`);
+			} else if (this.isObjectSchema(items)) {
+				result.unsupported.push(`${this.formatPath(path)}: lists of objects are not supported`);
+			} else {
+				this.reportUnknownKeywords(items, [...path, '[]'], result);
+				this.importValues(items, path, rule, result);
+			}
+			rule.outputShape = rule.outputShape || (rule.sourceType === 'inline' || rule.sourceType === 'date' ? 'block-list' : undefined);
+			if (!rule.options && rule.sourceType === 'inline') {
+				// A free list has no fixed choices, so suggest values used in other notes
+				rule.sourceType = 'recent-values';
+			}
+			return rule;
+		}
+
+		this.importValues(node, path, rule, result);
+		if (rule.sourceType === 'inline' || rule.sourceType === 'date') {
+			rule.outputShape = rule.outputShape || 'scalar';
+		}
+		return rule;
+	}
+
+	/**
+	 * Allowed values of a list item or single value: choices, a date, or a validated number/text
+	 */
+	private static importValues(node: JsonSchema, path: string[], rule: FieldRule, result: SchemaImportResult): void {
+		const choices = this.getChoices(node, path, result);
+		const types = this.getTypes(node);
+
+		if (choices) {
+			rule.options = choices;
+		} else if (node.format === 'date') {
+			rule.sourceType = 'date';
+		} else if (types.length === 1 && types[0] === 'boolean') {
+			rule.options = [{ key: 'true' }, { key: 'false' }];
+		} else if (rule.sourceType === 'inline' && (types.includes('number') || types.includes('integer') || this.hasValueConstraints(node))) {
+			rule.valueConfig = this.importValueConfig(node, path, result);
+		}
+	}
+
+	/**
+	 * Build an option from a sub-key schema
+	 * Value constraints the option can't hold become a rule for the sub-key
+	 */
+	private static importOption(node: JsonSchema, key: string, path: string[], result: SchemaImportResult): OptionItem {
+		const option: OptionItem = { key };
+		const types = this.getTypes(node);
+
+		if (typeof node.description === 'string') option.description = node.description;
+		if (typeof node['x-icon'] === 'string') option.icon = node['x-icon'];
+		if (typeof node['x-group'] === 'string') option.group = node['x-group'];
+		if (node.default !== undefined && node.default !== null && typeof node.default !== 'object') {
+			option.defaultValue = String(node.default);
+		}
+
+		this.reportUnknownKeywords(node, path, result);
+
+		const choices = this.getChoices(node, path, result);
+		if (node['x-option-type'] === 'duration' || node['x-option-type'] === 'time') {
+			this.importTimeOption(node, option);
+		} else if (choices) {
+			option.type = 'enum';
+			option.enumValues = choices.map(choice => choice.key);
+		} else if (types.includes('number') || types.includes('integer')) {
+			option.type = 'number';
+			if (Array.isArray(node['x-units'])) {
+				option.units = node['x-units'].map(String);
+			}
+			if (typeof node['x-canonical-unit'] === 'string') {
+				option.canonicalUnit = node['x-canonical-unit'];
+			}
+			this.importNumberConstraints(node, option);
+		} else if (types.length === 1 && types[0] === 'boolean') {
+			option.type = 'boolean';
+		}
+
+		// Number options hold their own range; other constraints need a rule
+		if (this.hasValueConstraints(node) && option.type !== 'enum' && option.type !== 'number') {
+			result.rules.push({
+				id: generateRuleId(),
+				enabled: true,
+				pathSegments: path,
+				fieldPath: FieldPathMatcher.joinSegments(path),
+				sourceType: 'inline',
+				outputShape: 'scalar',
+				valueConfig: this.importValueConfig(node, path, result),
+				displayFormat: { showDescription: true, showIcon: true },
+				description: `Value of "${key}"`
+			});
+		}
+
+		return option;
+	}
+
+	private static importTimeOption(node: JsonSchema, option: OptionItem): void {
+		const type: 'duration' | 'time' = node['x-option-type'];
+		const parse = (value: any) => typeof value !== 'string' ? null
+			: type === 'duration' ? TimeParser.parseDuration(value) : TimeParser.parseTime(value);
+		const formats: string[] = type === 'duration' ? DURATION_FORMATS : TIME_FORMATS;
+
+		option.type = type;
+		if (formats.includes(node['x-format'])) option.format = node['x-format'];
+		const min = parse(node['x-min']);
+		const max = parse(node['x-max']);
+		if (min !== null) option.min = min;
+		if (max !== null) option.max = max;
+	}
+
+	private static importNumberConstraints(node: JsonSchema, option: OptionItem): void {
+		const types = this.getTypes(node);
+		if (typeof node.minimum === 'number') option.min = node.minimum;
+		if (typeof node.maximum === 'number') option.max = node.maximum;
+		if (typeof node['x-precision'] === 'number') option.precision = node['x-precision'];
+
+		const step = typeof node.multipleOf === 'number' ? node.multipleOf : node['x-step'];
+		if (step === 1 || (types.includes('integer') && !types.includes('number'))) {
+			option.integer = true;
+		} else if (typeof step === 'number' && step > 0) {
+			option.step = step;
+		}
+	}
+
+	/**
+	 * Build rule-level value validation from a value schema
+	 */
+	private static importValueConfig(node: JsonSchema, path: string[], result: SchemaImportResult): ValueConfig {
+		const types = this.getTypes(node);
+		const units: string[] = Array.isArray(node['x-units']) ? node['x-units'].map(String) : [];
+		const isNumber = types.includes('number') || types.includes('integer');
+
+		if (isNumber) {
+			const config: ValueConfig = { type: 'number', validation: {} };
+			if (units.length > 0) {
+				config.units = units.map(unit => ({ unit }));
+				config.unitBehavior = 'optional';
+			}
+			if (typeof node.minimum === 'number') config.validation!.min = node.minimum;
+			if (typeof node.maximum === 'number') config.validation!.max = node.maximum;
+			if ((types.includes('integer') && !types.includes('number')) || node.multipleOf === 1) config.validation!.allowDecimal = false;
+			// The unit pattern is only a description of "10 km" style values
+			if (node.pattern && units.length === 0) {
+				result.unsupported.push(`${this.formatPath(path)}: "pattern" on numbers is not supported`);
+			}
+			return config;
+		}
+
+		const config: ValueConfig = { type: 'text', validation: {} };
+		if (typeof node.minLength === 'number') config.validation!.minLength = node.minLength;
+		if (typeof node.maxLength === 'number') config.validation!.maxLength = node.maxLength;
+		if (typeof node.pattern === 'string') config.validation!.pattern = node.pattern;
+		if (node.minimum !== undefined || node.maximum !== undefined) {
+			result.unsupported.push(`${this.formatPath(path)}: "minimum"/"maximum" on text is not supported`);
+		}
+		return config;
+	}
+
+	/**
+	 * Fixed values from "enum" or a "oneOf" list of "const" values
+	 */
+	private static getChoices(node: JsonSchema, path: string[], result: SchemaImportResult): OptionItem[] | null {
+		if (Array.isArray(node.enum)) {
+			return node.enum
+				.filter((value: any) => {
+					const isPlain = value !== null && typeof value !== 'object';
+					if (!isPlain) result.unsupported.push(`${this.formatPath(path)}: enum value ${JSON.stringify(value)} is not a plain value`);
+					return isPlain;
+				})
+				.map((value: any) => ({ key: String(value) }));
+		}
+
+		if (node.const !== undefined) {
+			return [{ key: String(node.const) }];
+		}
+
+		if (Array.isArray(node.oneOf)) {
+			if (!node.oneOf.every((member: any) => this.isObject(member) && member.const !== undefined)) {
+				result.unsupported.push(`${this.formatPath(path)}: "oneOf" is only supported as a list of "const" values`);
+				return null;
+			}
+			return node.oneOf.map((member: JsonSchema) => {
+				const option: OptionItem = { key: String(member.const) };
+				if (typeof member.description === 'string') option.description = member.description;
+				if (typeof member['x-icon'] === 'string') option.icon = member['x-icon'];
+				if (typeof member['x-group'] === 'string') option.group = member['x-group'];
+				return option;
+			});
+		}
+
+		return null;
+	}
+
+	/**
+	 * Report keywords that have no rule equivalent
+	 * `notHere` lists known keywords that are not supported at this place
+	 */
+	private static reportUnknownKeywords(node: JsonSchema, path: string[], result: SchemaImportResult, notHere: string[] = []): void {
+		const where = this.formatPath(path);
+
+		for (const keyword of Object.keys(node)) {
+			if (keyword.startsWith('x-')) continue;
+			if (!KNOWN_KEYWORDS.has(keyword) || notHere.includes(keyword)) {
+				result.unsupported.push(`${where}: "${keyword}" is not supported`);
+			}
+		}
+
+		if (node.format !== undefined && node.format !== 'date') {
+			result.unsupported.push(`${where}: format "${node.format}" is not supported`);
+		}
+
+		const types = Array.isArray(node.type) ? node.type : [];
+		const isNumberWithUnits = types.length === 2 && types.includes('string')
+			&& (types.includes('number') || types.includes('integer'));
+		if (types.length > 1 && !isNumberWithUnits) {
+			result.unsupported.push(`${where}: multiple types (${types.join(', ')}) are not supported, using "${types[0]}"`);
+		}
+	}
+
+	/**
+	 * Types of a schema; a "string" next to "number" is the unit form of a number
+	 */
+	private static getTypes(node: JsonSchema): string[] {
+		if (Array.isArray(node.type)) {
+			const isNumberWithUnits = node.type.length === 2 && node.type.includes('string')
+				&& (node.type.includes('number') || node.type.includes('integer'));
+			return isNumberWithUnits ? node.type.filter((type: string) => type !== 'string') : node.type.slice(0, 1);
+		}
+		return typeof node.type === 'string' ? [node.type] : [];
+	}
+
+	private static isObjectSchema(node: JsonSchema): boolean {
+		return this.getTypes(node).includes('object') || this.isObject(node.properties);
+	}
+
+	private static hasPlainProperties(node: JsonSchema): boolean {
+		return Object.values<any>(node.properties || {})
+			.some(child => this.isObject(child) && !this.isObjectSchema(child) && !child['x-rule']);
+	}
+
+	private static hasValueConstraints(node: JsonSchema): boolean {
+		const hasPattern = typeof node.pattern === 'string' && !Array.isArray(node['x-units']);
+		return node.minimum !== undefined || node.maximum !== undefined || hasPattern
+			|| node.minLength !== undefined || node.maxLength !== undefined;
+	}
+
+	/**
+	 * Copy the keys that are set, keeping their types
+	 */
+	private static pickDefined<T, K extends keyof T>(source: T, keys: K[]): Partial<Pick<T, K>> {
+		const picked: Partial<Pick<T, K>> = {};
+		for (const key of keys) {
+			if (source[key] !== undefined) picked[key] = source[key];
+		}
+		return picked;
+	}
+
+	private static isObject(value: any): value is JsonSchema {
+		return typeof value === 'object' && value !== null && !Array.isArray(value);
+	}
+
+	private static formatPath(path: string[]): string {
+		return path.length > 0 ? path.join(' > ') : '(root)';
+	}
+}
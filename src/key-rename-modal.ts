@@ -0,0 +1,176 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import FrontmatterSuggesterPlugin from './main';
+import { FileRenamePreview, KeyRename, KeyRenamer, RenameBatch } from './key-renamer';
+
+/**
+ * Rename a frontmatter key across the vault
+ * Shows a dry-run preview of every changed line before renaming
+ * Renames in a row (e.g., several keys of one rule edit) pass their batch on, so they undo together
+ */
+export class KeyRenameModal extends Modal {
+	private plugin: FrontmatterSuggesterPlugin;
+	private rename: KeyRename;
+	private previews: FileRenamePreview[] | null = null;
+	private renamedCount: number | null = null;
+	// Batch of the renames before this one, and the batch including this one once applied
+	private batch: RenameBatch | null;
+	private onDone?: (batch: RenameBatch | null) => void;
+
+	constructor(
+		app: App,
+		plugin: FrontmatterSuggesterPlugin,
+		rename?: KeyRename,
+		onDone?: (batch: RenameBatch | null) => void,
+		previousBatch: RenameBatch | null = null
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.rename = rename ? { ...rename } : { fieldPath: '', oldKey: '', newKey: '' };
+		this.onDone = onDone;
+		this.batch = previousBatch;
+		this.titleEl.setText('Rename frontmatter key');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		if (this.renamedCount !== null) {
+			this.renderDone(contentEl);
+			return;
+		}
+
+		new Setting(contentEl)
+			.setName('Property path')
+			.setDesc('Property holding the key, e.g., "Habits.Exercises" (wildcards allowed). Empty = top-level properties')
+			.addText(text => text
+				.setPlaceholder('Habits.Exercises')
+				.setValue(this.rename.fieldPath)
+				.onChange(value => {
+					this.rename.fieldPath = value.trim();
+					this.previews = null;
+				})
+			);
+
+		new Setting(contentEl)
+			.setName('Old key')
+			.addText(text => text
+				.setPlaceholder('push_up')
+				.setValue(this.rename.oldKey)
+				.onChange(value => {
+					this.rename.oldKey = value.trim();
+					this.previews = null;
+				})
+			);
+
+		new Setting(contentEl)
+			.setName('New key')
+			.addText(text => text
+				.setPlaceholder('push_ups')
+				.setValue(this.rename.newKey)
+				.onChange(value => {
+					this.rename.newKey = value.trim();
+					this.previews = null;
+				})
+			);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Preview')
+				.onClick(() => this.runPreview())
+			);
+
+		if (this.previews) {
+			this.renderPreview(contentEl, this.previews);
+		}
+	}
+
+	/**
+	 * Dry run over the vault
+	 */
+	private async runPreview(): Promise<void> {
+		const { oldKey, newKey } = this.rename;
+		if (!oldKey || !newKey || oldKey === newKey) {
+			new Notice('Enter an old and a different new key');
+			return;
+		}
+
+		this.previews = await KeyRenamer.preview(this.app, this.rename);
+		this.onOpen();
+	}
+
+	private renderPreview(container: HTMLElement, previews: FileRenamePreview[]): void {
+		const changed = previews.filter(preview => preview.changes.length > 0);
+		const conflicts = previews.reduce((sum, preview) => sum + preview.conflicts, 0);
+
+		container.createEl('h4', {
+			text: changed.length > 0
+				? `${changed.length} ${changed.length === 1 ? 'note' : 'notes'} will change`
+				: 'No notes use this key'
+		});
+
+		if (conflicts > 0) {
+			container.createDiv({
+				cls: 'setting-item-description',
+				text: `${conflicts} ${conflicts === 1 ? 'key is' : 'keys are'} left unchanged because "${this.rename.newKey}" already exists next to ${conflicts === 1 ? 'it' : 'them'}`
+			});
+		}
+
+		const listEl = container.createDiv({ cls: 'frontmatter-rename-preview' });
+		for (const preview of previews) {
+			const fileEl = listEl.createDiv({ cls: 'frontmatter-rename-file' });
+			fileEl.createDiv({ cls: 'frontmatter-rename-file-path', text: preview.file.path });
+
+			for (const change of preview.changes) {
+				const lineEl = fileEl.createDiv({ cls: 'frontmatter-rename-line' });
+				lineEl.createDiv({ cls: 'frontmatter-rename-before', text: `${change.line + 1}: ${change.before.trim()}` });
+				lineEl.createDiv({ cls: 'frontmatter-rename-after', text: `${change.line + 1}: ${change.after.trim()}` });
+			}
+			if (preview.conflicts > 0) {
+				fileEl.createDiv({ cls: 'frontmatter-rename-conflict', text: `${preview.conflicts} skipped (new key already exists)` });
+			}
+		}
+
+		if (changed.length === 0) return;
+
+		new Setting(container)
+			.addButton(button => button
+				.setButtonText(`Rename in ${changed.length} ${changed.length === 1 ? 'note' : 'notes'}`)
+				.setCta()
+				.onClick(async () => {
+					const batch = await KeyRenamer.apply(this.app, this.rename, changed.map(preview => preview.file));
+					this.batch = this.batch ? KeyRenamer.mergeBatches(this.batch, batch) : batch;
+					this.plugin.lastRenameBatch = this.batch;
+					this.renamedCount = batch.files.length;
+					this.onOpen();
+				})
+			);
+	}
+
+	private renderDone(container: HTMLElement): void {
+		const count = this.renamedCount || 0;
+		container.createEl('p', {
+			text: `Renamed "${this.rename.oldKey}" to "${this.rename.newKey}" in ${count} ${count === 1 ? 'note' : 'notes'}.`
+		});
+
+		new Setting(container)
+			.addButton(button => button
+				.setButtonText(this.batch && this.batch.renames.length > 1 ? `Undo all ${this.batch.renames.length} renames` : 'Undo')
+				.onClick(async () => {
+					await this.plugin.undoLastRename();
+					this.batch = null;
+					this.close();
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Done')
+				.setCta()
+				.onClick(() => this.close())
+			);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onDone?.(this.batch);
+	}
+}
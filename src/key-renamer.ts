@@ -0,0 +1,361 @@
+import { App, TFile } from 'obsidian';
+import { FrontmatterParser } from './frontmatter-parser';
+import { FieldPathMatcher } from './field-path-matcher';
+
+export interface KeyRename {
+	fieldPath: string;  // Property holding the key, e.g., "Habits.Exercises" ("" for top-level properties)
+	oldKey: string;
+	newKey: string;
+}
+
+export interface LineChange {
+	line: number;    // Line number (0-based)
+	before: string;
+	after: string;
+}
+
+export interface TextRenameResult {
+	text: string;
+	changes: LineChange[];
+	conflicts: number;  // Keys left alone because the new key already exists next to them
+}
+
+export interface FileRenamePreview {
+	file: TFile;
+	changes: LineChange[];
+	conflicts: number;
+}
+
+// Contents of renamed files, so the whole rename (or several renames of one rule edit) can be undone at once
+export interface RenameBatch {
+	renames: KeyRename[];
+	files: { path: string; before: string; after: string }[];
+}
+
+// Key or value found directly under the renamed property
+interface KeyOccurrence {
+	line: number;
+	from: number;     // Column range of the key as written (with quotes)
+	to: number;
+	parent: number;   // Line of the parent property (-1 for top level), groups siblings
+	written: string;  // Key as written, e.g., '"push up"'
+	inFlow?: boolean; // Item of a flow sequence
+}
+
+// Mapping key: optional indent, the key (plain or quoted), then ":" followed by a space or the line end
+const KEY_PATTERN = /^(\s*)("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#:"'-][^:#]*?|-[^\s:#][^:#]*?)\s*:(?=\s|$)/;
+// Plain or quoted scalar, then an optional comment
+const SCALAR_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^#]*?)\s*(#.*)?$/;
+// Item of a flow sequence
+const FLOW_ITEM_PATTERN = /"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^,\[\]]+/g;
+
+/**
+ * Rename keys in frontmatter across the vault, editing lines in place
+ * so comments, ordering and indentation are kept
+ * Covers what options are written as: sub-keys ("push_up: 10"), list items ("- push_up", "- push_up: 10"),
+ * flow list items ("[push_up]") and single values ("exercise: push_up")
+ */
+export class KeyRenamer {
+	/**
+	 * Rename a key in note text
+	 */
+	static renameInText(text: string, rename: KeyRename): TextRenameResult {
+		const lines = text.split('\n');
+		const result: TextRenameResult = { text, changes: [], conflicts: 0 };
+
+		const occurrences = this.findOccurrences(lines, rename);
+		if (occurrences.matches.length === 0) return result;
+
+		const replacements: Map<number, KeyOccurrence[]> = new Map();
+		for (const occurrence of occurrences.matches) {
+			// Renaming next to an existing new key would create a duplicate
+			if (occurrences.siblings.get(occurrence.parent)?.has(rename.newKey)) {
+				result.conflicts++;
+				continue;
+			}
+			const onLine = replacements.get(occurrence.line) || [];
+			onLine.push(occurrence);
+			replacements.set(occurrence.line, onLine);
+		}
+
+		for (const [line, onLine] of replacements) {
+			const before = lines[line];
+			let after = before;
+			// From the end of the line so earlier columns stay valid
+			for (const occurrence of onLine.sort((a, b) => b.from - a.from)) {
+				after = after.substring(0, occurrence.from)
+					+ this.formatKey(rename.newKey, occurrence.written, occurrence.inFlow || false)
+					+ after.substring(occurrence.to);
+			}
+			lines[line] = after;
+			result.changes.push({ line, before, after });
+		}
+
+		result.text = lines.join('\n');
+		result.changes.sort((a, b) => a.line - b.line);
+		return result;
+	}
+
+	/**
+	 * Dry run: notes that would change, with their changed lines
+	 */
+	static async preview(app: App, rename: KeyRename): Promise<FileRenamePreview[]> {
+		const previews: FileRenamePreview[] = [];
+
+		for (const file of app.vault.getMarkdownFiles()) {
+			const content = await app.vault.cachedRead(file);
+			if (!content.startsWith('---') || !content.includes(rename.oldKey)) continue;
+
+			const { changes, conflicts } = this.renameInText(content, rename);
+			if (changes.length > 0 || conflicts > 0) {
+				previews.push({ file, changes, conflicts });
+			}
+		}
+
+		return previews.sort((a, b) => a.file.path.localeCompare(b.file.path));
+	}
+
+	/**
+	 * Rename the key in the given notes
+	 * Each note is renamed again at write time, so notes edited since the preview are safe
+	 */
+	static async apply(app: App, rename: KeyRename, files: TFile[]): Promise<RenameBatch> {
+		const batch: RenameBatch = { renames: [rename], files: [] };
+
+		for (const file of files) {
+			await app.vault.process(file, (data) => {
+				const { text, changes } = this.renameInText(data, rename);
+				if (changes.length > 0) {
+					batch.files.push({ path: file.path, before: data, after: text });
+				}
+				return text;
+			});
+		}
+
+		return batch;
+	}
+
+	/**
+	 * Combine a rename batch with the batch of a later rename, so one undo restores both
+	 * A note renamed twice keeps its contents from before the first rename
+	 */
+	static mergeBatches(first: RenameBatch, second: RenameBatch): RenameBatch {
+		const files = first.files.map(entry => ({ ...entry }));
+		for (const entry of second.files) {
+			const earlier = files.find(file => file.path === entry.path && file.after === entry.before);
+			if (earlier) {
+				earlier.after = entry.after;
+			} else {
+				files.push({ ...entry });
+			}
+		}
+		return { renames: [...first.renames, ...second.renames], files };
+	}
+
+	/**
+	 * Restore the notes of a rename batch
+	 * Notes changed again after the rename are skipped
+	 */
+	static async undo(app: App, batch: RenameBatch): Promise<{ restored: number; skipped: string[] }> {
+		let restored = 0;
+		const skipped: string[] = [];
+
+		for (const entry of batch.files) {
+			const file = app.vault.getAbstractFileByPath(entry.path);
+			if (!(file instanceof TFile)) {
+				skipped.push(entry.path);
+				continue;
+			}
+
+			await app.vault.process(file, (data) => {
+				if (data !== entry.after) {
+					skipped.push(entry.path);
+					return data;
+				}
+				restored++;
+				return entry.before;
+			});
+		}
+
+		return { restored, skipped };
+	}
+
+	/**
+	 * Find keys to rename and, per parent, the keys already present
+	 */
+	private static findOccurrences(lines: string[], rename: KeyRename): { matches: KeyOccurrence[]; siblings: Map<number, Set<string>> } {
+		const matches: KeyOccurrence[] = [];
+		const siblings: Map<number, Set<string>> = new Map();
+		const bounds = FrontmatterParser.getFrontmatterBounds({
+			getLine: (line: number) => lines[line] ?? '',
+			lineCount: () => lines.length
+		});
+		if (!bounds) return { matches, siblings };
+
+		const addSibling = (parent: number, key: string) => {
+			const keys = siblings.get(parent) || new Set();
+			keys.add(key);
+			siblings.set(parent, keys);
+		};
+
+		// Open properties above the current line
+		const stack: { indent: number; name: string; line: number; hasValue: boolean }[] = [];
+		let blockScalarIndent = -1;
+
+		for (let i = bounds.start + 1; i < bounds.end; i++) {
+			const line = lines[i].replace(/\r$/, '');
+			if (line.trim() === '' || line.trim().startsWith('#')) continue;
+
+			const indent = FrontmatterParser.getIndent(line);
+
+			// Lines of a "|" or ">" block are text, not properties
+			if (blockScalarIndent !== -1) {
+				if (indent > blockScalarIndent) continue;
+				blockScalarIndent = -1;
+			}
+
+			if (FrontmatterParser.isListItem(line)) {
+				// Block sequences may sit at their property's own indent ("tags:\n- a")
+				while (stack.length > 0 && (stack[stack.length - 1].indent > indent
+					|| (stack[stack.length - 1].indent === indent && stack[stack.length - 1].hasValue))) {
+					stack.pop();
+				}
+				const parent = stack[stack.length - 1];
+				if (!parent || !this.isRenamedProperty(stack.map(entry => entry.name), rename)) continue;
+
+				const valueStart = FrontmatterParser.getListItemValueStart(line);
+
+				// Mapping item: "- push_up: 10" (its keys are siblings of each other, not of other items)
+				const itemKey = line.substring(valueStart).match(KEY_PATTERN);
+				if (itemKey) {
+					const name = FrontmatterParser.unquote(itemKey[2]);
+					addSibling(i, name);
+					if (name === rename.oldKey) {
+						const from = valueStart + itemKey[1].length;
+						matches.push({ line: i, from, to: from + itemKey[2].length, parent: i, written: itemKey[2] });
+					}
+					continue;
+				}
+
+				const scalar = this.findScalar(line, valueStart);
+				if (!scalar) continue;
+
+				addSibling(parent.line, scalar.key);
+				if (scalar.key === rename.oldKey) {
+					matches.push({ line: i, from: scalar.from, to: scalar.to, parent: parent.line, written: scalar.written });
+				}
+				continue;
+			}
+
+			const match = line.match(KEY_PATTERN);
+			if (!match) continue;
+
+			while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+				stack.pop();
+			}
+
+			const name = FrontmatterParser.unquote(match[2]);
+			const parentPath = stack.map(entry => entry.name);
+			const parentLine = stack.length > 0 ? stack[stack.length - 1].line : -1;
+			const valueStart = match[0].length;
+			const value = line.substring(valueStart).trim();
+
+			// Sub-key (or top-level property) under the renamed property
+			if (this.isParentOfKeys(parentPath, rename)) {
+				addSibling(parentLine, name);
+				if (name === rename.oldKey) {
+					const from = match[1].length;
+					matches.push({ line: i, from, to: from + match[2].length, parent: parentLine, written: match[2] });
+				}
+			}
+
+			// Value on the renamed property's own line: "[a, push_up]" or "push_up"
+			if (this.isRenamedProperty([...parentPath, name], rename) && value && !value.startsWith('#')) {
+				if (value.startsWith('[')) {
+					matches.push(...this.findFlowItems(line, valueStart, i, addSibling, rename));
+				} else if (!/^[|>{&*!]/.test(value)) {
+					const scalar = this.findScalar(line, valueStart);
+					if (scalar && scalar.key === rename.oldKey) {
+						matches.push({ line: i, from: scalar.from, to: scalar.to, parent: i, written: scalar.written });
+					}
+				}
+			}
+
+			if (/^[|>]/.test(value)) {
+				blockScalarIndent = indent;
+			}
+			stack.push({ indent, name, line: i, hasValue: value !== '' && !value.startsWith('#') });
+		}
+
+		return { matches, siblings };
+	}
+
+	/**
+	 * Items of a flow sequence on a property line
+	 */
+	private static findFlowItems(
+		line: string,
+		valueStart: number,
+		lineNumber: number,
+		addSibling: (parent: number, key: string) => void,
+		rename: KeyRename
+	): KeyOccurrence[] {
+		const open = line.indexOf('[', valueStart);
+		const close = line.indexOf(']', open);
+		const inner = line.substring(open + 1, close === -1 ? line.length : close);
+		const found: KeyOccurrence[] = [];
+
+		FLOW_ITEM_PATTERN.lastIndex = 0;
+		let match: RegExpExecArray | null;
+		while ((match = FLOW_ITEM_PATTERN.exec(inner)) !== null) {
+			const written = match[0].trim();
+			if (!written) continue;
+
+			const key = FrontmatterParser.unquote(written);
+			addSibling(lineNumber, key);
+			if (key === rename.oldKey) {
+				const from = open + 1 + match.index + match[0].indexOf(written);
+				found.push({ line: lineNumber, from, to: from + written.length, parent: lineNumber, written, inFlow: true });
+			}
+		}
+
+		return found;
+	}
+
+	/**
+	 * Plain or quoted scalar starting at a column, without a trailing comment
+	 */
+	private static findScalar(line: string, start: number): { key: string; from: number; to: number; written: string } | null {
+		const rest = line.substring(start);
+		const from = start + (rest.length - rest.replace(/^\s+/, '').length);
+		const match = line.substring(from).match(SCALAR_PATTERN);
+		if (!match || !match[1]) return null;
+
+		return { key: FrontmatterParser.unquote(match[1]), from, to: from + match[1].length, written: match[1] };
+	}
+
+	/**
+	 * Check if a property path is the one whose sub-keys are renamed
+	 */
+	private static isParentOfKeys(parentPath: string[], rename: KeyRename): boolean {
+		return rename.fieldPath === ''
+			? parentPath.length === 0
+			: FieldPathMatcher.matches(rename.fieldPath, parentPath.join('.'));
+	}
+
+	/**
+	 * Check if a property path is the renamed property itself (for list items and single values)
+	 */
+	private static isRenamedProperty(path: string[], rename: KeyRename): boolean {
+		return rename.fieldPath !== '' && FieldPathMatcher.matches(rename.fieldPath, path.join('.'));
+	}
+
+	/**
+	 * Write the new key the way the old one was written (plain, "double" or 'single' quoted)
+	 */
+	private static formatKey(newKey: string, written: string, inFlow: boolean): string {
+		if (written.startsWith('"')) return JSON.stringify(newKey);
+		if (written.startsWith("'")) return `'${newKey.replace(/'/g, "''")}'`;
+		return FrontmatterParser.quote(newKey, inFlow);
+	}
+}
@@ -1,24 +1,88 @@
-import { Plugin, MarkdownView } from 'obsidian';
+import { Plugin, MarkdownView, Notice, TFile, Editor } from 'obsidian';
 import { PluginSettings, DEFAULT_SETTINGS } from './types';
 import { FrontmatterSuggester } from './suggester';
 import { FrontmatterSuggesterSettingTab } from './settings';
 import { ValueValidatorExtension } from './value-validator-extension';
+import { ValueIndex } from './value-index';
+import { TagSource } from './tag-source';
+import { FileSource } from './file-source';
+import { createValidationExtension } from './validation-decorator';
+import { ValidationReportView, VIEW_TYPE_VALIDATION_REPORT } from './validation-report-view';
+import { QuickFixer } from './quick-fix';
+import { FieldPathMatcher } from './field-path-matcher';
+import { OptionUsageTracker } from './option-usage';
+import { createTabStopExtension } from './tab-stops';
+import { FrontmatterTemplate } from './frontmatter-template';
+import { RuleSetSuggestModal } from './rule-set-suggest-modal';
+import { RuleScopeMatcher } from './rule-scope';
+import { JsonSchemaConverter } from './json-schema';
+import { SchemaImportModal } from './schema-import-modal';
+import { RuleGeneratorModal } from './rule-generator-modal';
+import { KeyRenamer, RenameBatch } from './key-renamer';
+import { KeyRenameModal } from './key-rename-modal';
+
+const SCHEMA_EXPORT_PATH = 'frontmatter-rules.schema.json';
 
 export default class FrontmatterSuggesterPlugin extends Plugin {
 	settings: PluginSettings;
 	suggester: FrontmatterSuggester | null = null;
 	validator: ValueValidatorExtension | null = null;
+	valueIndex: ValueIndex;
+	optionUsage: OptionUsageTracker;
+	lastRenameBatch: RenameBatch | null = null;  // Most recent key rename, for undo
 
 	async onload() {
 
 		await this.loadSettings();
 
+		// Build the vault-wide value index once the vault is loaded,
+		// then keep it up to date per file
+		this.valueIndex = new ValueIndex(this.app);
+		this.app.workspace.onLayoutReady(() => this.valueIndex.rebuild());
+		this.registerEvent(
+			// Fires for created and modified files once their metadata is parsed
+			this.app.metadataCache.on('changed', (file) => {
+				this.valueIndex.updateFile(file);
+				this.invalidateVaultSources();
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on('resolved', () => this.invalidateVaultSources())
+		);
+		this.registerEvent(
+			// Files without metadata (attachments) only show up here
+			this.app.vault.on('create', () => this.invalidateVaultSources())
+		);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				this.valueIndex.renameFile(file, oldPath);
+				this.invalidateVaultSources();
+			})
+		);
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (file instanceof TFile) {
+					this.valueIndex.removeFile(file.path);
+				}
+				this.invalidateVaultSources();
+			})
+		);
+
+		// Pick statistics for usage-based option order
+		this.optionUsage = new OptionUsageTracker(this.settings, () => this.saveSettings());
+
 		// Register the suggester
-		this.suggester = new FrontmatterSuggester(this.app, this.settings);
+		this.suggester = new FrontmatterSuggester(this.app, this.settings, this.valueIndex, this.optionUsage);
 		this.registerEditorSuggest(this.suggester);
 
 		// Initialize validator
-		this.validator = new ValueValidatorExtension(this.settings);
+		this.validator = new ValueValidatorExtension(this.app, this.settings);
+
+		// Show validation errors as underlines with hover tooltips
+		this.registerEditorExtension(createValidationExtension(this.validator.getDecorator()));
+
+		// Tab / Shift-Tab between values inserted by multi-select
+		this.registerEditorExtension(createTabStopExtension());
 
 		// Register change event for validation
 		this.registerEvent(
@@ -29,6 +93,100 @@ export default class FrontmatterSuggesterPlugin extends Plugin {
 			})
 		);
 
+		// Vault-wide validation report
+		this.registerView(
+			VIEW_TYPE_VALIDATION_REPORT,
+			(leaf) => new ValidationReportView(leaf, this)
+		);
+
+		this.addCommand({
+			id: 'validate-all-notes',
+			name: 'Validate all notes',
+			callback: () => this.validateAllNotes()
+		});
+
+		this.addCommand({
+			id: 'fix-current-note',
+			name: 'Fix frontmatter issues in current note',
+			editorCallback: (editor, view) => {
+				if (!this.validator) return;
+				const issues = this.validator.validateLines(editor, view.file);
+				const fixed = QuickFixer.applyToEditor(editor, issues);
+				const unfixed = issues.length - fixed;
+				new Notice(unfixed > 0
+					? `Fixed ${fixed} of ${issues.length} frontmatter issues (${unfixed} need manual changes)`
+					: `Fixed ${fixed} frontmatter ${fixed === 1 ? 'issue' : 'issues'}`);
+			}
+		});
+
+		this.addCommand({
+			id: 'normalize-units-current-note',
+			name: 'Normalize units in current note',
+			editorCallback: (editor, view) => {
+				if (!this.validator) return;
+				const issues = this.validator.findUnitNormalizations(editor, view.file);
+				const converted = QuickFixer.applyToEditor(editor, issues);
+				new Notice(converted > 0
+					? `Converted ${converted} ${converted === 1 ? 'value' : 'values'} to canonical units`
+					: 'All values already use canonical units');
+			}
+		});
+
+		this.addCommand({
+			id: 'insert-frontmatter-from-rules',
+			name: 'Insert frontmatter from rules',
+			editorCallback: (editor, view) => {
+				const ruleSets = RuleSetSuggestModal.getRuleSetNames(this.settings.rules);
+				if (ruleSets.length === 0) {
+					this.insertFrontmatterFromRules(editor, view.file, null);
+					return;
+				}
+				new RuleSetSuggestModal(this.app, ruleSets, (ruleSet) => {
+					this.insertFrontmatterFromRules(editor, view.file, ruleSet);
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'generate-rules-from-vault',
+			name: 'Generate rules from vault',
+			callback: () => new RuleGeneratorModal(this.app, this).open()
+		});
+
+		this.addCommand({
+			id: 'export-rules-json-schema',
+			name: 'Export rules as JSON Schema',
+			callback: () => this.exportRulesAsSchema()
+		});
+
+		this.addCommand({
+			id: 'import-rules-json-schema',
+			name: 'Import rules from JSON Schema',
+			callback: () => new SchemaImportModal(this.app, this).open()
+		});
+
+		this.addCommand({
+			id: 'rename-frontmatter-key',
+			name: 'Rename frontmatter key across vault',
+			callback: () => new KeyRenameModal(this.app, this).open()
+		});
+
+		this.addCommand({
+			id: 'undo-frontmatter-key-rename',
+			name: 'Undo last frontmatter key rename',
+			callback: () => this.undoLastRename()
+		});
+
+		this.addCommand({
+			id: 'reset-option-usage',
+			name: 'Reset option usage statistics',
+			callback: async () => {
+				this.optionUsage.reset();
+				await this.saveSettings();
+				new Notice('Option usage statistics reset');
+			}
+		});
+
 		// Update suggester with loaded settings
 		this.updateSuggester();
 
@@ -36,20 +194,125 @@ export default class FrontmatterSuggesterPlugin extends Plugin {
 		this.addSettingTab(new FrontmatterSuggesterSettingTab(this.app, this));
 	}
 
-	onunload() {
+	async onunload() {
+		this.invalidateVaultSources();
 		this.validator?.cleanup();
 		this.validator = null;
 		this.suggester = null;
+		await this.optionUsage?.flush();
+	}
+
+	/**
+	 * Drop the cached vault tags and files used for suggestions
+	 */
+	private invalidateVaultSources(): void {
+		TagSource.invalidate();
+		FileSource.invalidate();
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+		if (this.migrateSettings()) {
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Convert legacy parent/child rules to path segments
+	 * Returns true if any rule was changed
+	 */
+	private migrateSettings(): boolean {
+		let changed = false;
+
+		for (const rule of this.settings.rules) {
+			if (rule.pathSegments) continue;
+
+			const legacyPath = rule.fieldPath
+				|| [rule.parentField, rule.childField].filter(field => field).join('.');
+			rule.pathSegments = FieldPathMatcher.splitPattern(legacyPath || '');
+			rule.fieldPath = FieldPathMatcher.joinSegments(rule.pathSegments);
+			delete rule.parentField;
+			delete rule.childField;
+			changed = true;
+		}
+
+		return changed;
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Open the validation report view and validate every note
+	 */
+	async validateAllNotes() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_VALIDATION_REPORT)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_VALIDATION_REPORT, active: true });
+		}
+		workspace.revealLeaf(leaf);
+
+		if (leaf.view instanceof ValidationReportView) {
+			await leaf.view.runValidation();
+		}
+	}
+
+	/**
+	 * Add the properties of one rule set, or of all enabled rules that apply to the note, to its frontmatter
+	 */
+	insertFrontmatterFromRules(editor: Editor, file: TFile | null, ruleSet: string | null) {
+		const scopeContext = file && !ruleSet ? RuleScopeMatcher.getContext(this.app, file, editor) : null;
+		const rules = RuleScopeMatcher.getApplicableRules(this.settings, scopeContext)
+			.filter(rule => rule.enabled && (!ruleSet || rule.ruleSet === ruleSet));
+		const added = FrontmatterTemplate.applyToEditor(editor, rules);
+		new Notice(added > 0
+			? `Added ${added} frontmatter ${added === 1 ? 'property' : 'properties'}`
+			: 'Frontmatter already has all properties from the rules');
+	}
+
+	/**
+	 * Write all rules to a JSON Schema file in the vault root
+	 */
+	async exportRulesAsSchema() {
+		const { schema, skipped } = JsonSchemaConverter.exportRules(this.settings.rules);
+		const content = JSON.stringify(schema, null, 2);
+
+		const existing = this.app.vault.getAbstractFileByPath(SCHEMA_EXPORT_PATH);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(SCHEMA_EXPORT_PATH, content);
+		}
+
+		new Notice(skipped.length > 0
+			? `Exported rules to ${SCHEMA_EXPORT_PATH}. Skipped (wildcard or nested under a list): ${skipped.join(', ')}`
+			: `Exported rules to ${SCHEMA_EXPORT_PATH}`);
+	}
+
+	/**
+	 * Restore the notes changed by the last key rename
+	 */
+	async undoLastRename() {
+		const batch = this.lastRenameBatch;
+		if (!batch) {
+			new Notice('No key rename to undo');
+			return;
+		}
+
+		const { restored, skipped } = await KeyRenamer.undo(this.app, batch);
+		this.lastRenameBatch = null;
+		new Notice(skipped.length > 0
+			? `Restored ${restored} ${restored === 1 ? 'note' : 'notes'}. Not restored (changed since the rename): ${skipped.join(', ')}`
+			: `Restored ${restored} ${restored === 1 ? 'note' : 'notes'}`);
+	}
+
 	updateSuggester() {
 		if (this.suggester) {
 			this.suggester.updateSettings(this.settings);
@@ -57,5 +320,6 @@ export default class FrontmatterSuggesterPlugin extends Plugin {
 		if (this.validator) {
 			this.validator.updateSettings(this.settings);
 		}
+		this.optionUsage?.updateSettings(this.settings);
 	}
 }
@@ -0,0 +1,99 @@
+import { Debouncer, debounce } from 'obsidian';
+import { FieldRule, OptionItem, OptionUsage, PluginSettings } from './types';
+
+/**
+ * Remembers how often and how recently inline options are picked, per rule
+ * Statistics are stored in the plugin data and used to sort options
+ */
+export class OptionUsageTracker {
+	private settings: PluginSettings;
+	private save: () => Promise<void>;
+	private requestSave: Debouncer<[], void>;
+	private savePending = false;
+
+	constructor(settings: PluginSettings, save: () => Promise<void>) {
+		this.settings = settings;
+		this.save = save;
+		// Picks often come in bursts (multi-select), so save once they settle
+		this.requestSave = debounce(() => {
+			this.savePending = false;
+			this.saveNow();
+		}, 2000, true);
+	}
+
+	updateSettings(settings: PluginSettings) {
+		this.settings = settings;
+	}
+
+	/**
+	 * Save pending picks now (on unload, before the debounce fires)
+	 * Debouncer.run() needs Obsidian 1.4.4, so cancel and save directly
+	 */
+	async flush(): Promise<void> {
+		if (!this.savePending) return;
+		this.requestSave.cancel();
+		this.savePending = false;
+		await this.saveNow();
+	}
+
+	private saveNow(): Promise<void> {
+		return this.save().catch(error => console.error('Failed to save option usage:', error));
+	}
+
+	/**
+	 * Record picked options of a rule
+	 */
+	record(rule: FieldRule, keys: string[]): void {
+		if (keys.length === 0) return;
+
+		const usage = this.settings.optionUsage || (this.settings.optionUsage = {});
+		const ruleUsage = usage[rule.id] || (usage[rule.id] = {});
+		const now = Date.now();
+
+		for (const key of keys) {
+			const entry = ruleUsage[key] || (ruleUsage[key] = { count: 0, lastUsed: 0 });
+			entry.count++;
+			entry.lastUsed = now;
+		}
+
+		this.savePending = true;
+		this.requestSave();
+	}
+
+	/**
+	 * Sort a rule's options by its configured order
+	 * Options without statistics keep their manual order after the used ones
+	 */
+	sortOptions(rule: FieldRule, options: OptionItem[]): OptionItem[] {
+		const order = rule.optionSort || 'manual';
+		if (order === 'manual') return options;
+
+		if (order === 'alphabetical') {
+			return [...options].sort((a, b) => a.key.localeCompare(b.key));
+		}
+
+		const ruleUsage = this.settings.optionUsage?.[rule.id] || {};
+		const empty: OptionUsage = { count: 0, lastUsed: 0 };
+
+		return [...options].sort((a, b) => {
+			const usageA = ruleUsage[a.key] || empty;
+			const usageB = ruleUsage[b.key] || empty;
+
+			if (order === 'most-used' && usageA.count !== usageB.count) {
+				return usageB.count - usageA.count;
+			}
+			return usageB.lastUsed - usageA.lastUsed;
+		});
+	}
+
+	/**
+	 * Clear statistics of one rule, or of all rules
+	 */
+	reset(ruleId?: string): void {
+		if (ruleId) {
+			delete this.settings.optionUsage?.[ruleId];
+		} else {
+			this.settings.optionUsage = {};
+		}
+	}
+}
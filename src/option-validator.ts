@@ -1,4 +1,12 @@
-import { OptionItem, ValidationResult } from './types';
+import { DurationFormat, OptionItem, QuickFix, TimeFormat, ValidationResult } from './types';
+import { UnitConverter } from './unit-converter';
+import { TimeParser } from './time-parser';
+
+// Unit conversion for number options
+export interface UnitCheck {
+	converter: UnitConverter;
+	warnNonCanonical: boolean;  // Warn on values in another unit than the option's canonical unit
+}
 
 /**
  * Validator for option-level validation
@@ -8,7 +16,7 @@ export class OptionValidator {
 	/**
 	 * Validate a value against an option's configuration
 	 */
-	static validate(value: string, option: OptionItem): ValidationResult {
+	static validate(value: string, option: OptionItem, unitCheck?: UnitCheck): ValidationResult {
 		if (!value || value.trim() === '') {
 			return { valid: true }; // Empty values are OK
 		}
@@ -22,11 +30,15 @@ export class OptionValidator {
 
 		switch (option.type) {
 			case 'number':
-				return this.validateNumber(trimmedValue, option.units);
+				return this.validateNumber(trimmedValue, option, unitCheck);
 			case 'boolean':
 				return this.validateBoolean(trimmedValue);
 			case 'enum':
 				return this.validateEnum(trimmedValue, option.enumValues);
+			case 'duration':
+				return this.validateDuration(trimmedValue, option);
+			case 'time':
+				return this.validateTime(trimmedValue, option);
 			default:
 				return { valid: true };
 		}
@@ -35,7 +47,8 @@ export class OptionValidator {
 	/**
 	 * Validate number type
 	 */
-	private static validateNumber(value: string, units?: string[]): ValidationResult {
+	private static validateNumber(value: string, option: OptionItem, unitCheck?: UnitCheck): ValidationResult {
+		const units = option.units;
 		const parseResult = this.parseNumberWithUnit(value);
 
 		if (!parseResult) {
@@ -46,7 +59,8 @@ export class OptionValidator {
 			};
 		}
 
-		const { unit } = parseResult;
+		const { numText, unit } = parseResult;
+		let warning: ValidationResult | null = null;
 
 		// Check unit validity
 		if (units && units.length > 0) {
@@ -55,15 +69,33 @@ export class OptionValidator {
 				return {
 					valid: false,
 					error: 'Unit required',
-					suggestion: `Valid units: ${units.join(', ')}`
+					suggestion: `Valid units: ${units.join(', ')}`,
+					fixes: this.candidateFixes(units.map(u => `${numText} ${u}`))
 				};
 			}
 
+			// A unit that converts to the canonical one is fixed by converting
+			const conversion = unitCheck ? this.getUnitConversion(value, option, unitCheck.converter) : null;
+
 			if (!units.includes(unit)) {
 				return {
 					valid: false,
 					error: `Invalid unit "${unit}"`,
-					suggestion: `Valid units: ${units.join(', ')}`
+					suggestion: `Valid units: ${units.join(', ')}`,
+					// A unit that converts isn't misspelled, so no closest-unit guesses next to the conversion
+					fixes: conversion
+						? [conversion]
+						: this.candidateFixes(this.findClosest(unit, units).map(u => `${numText} ${u}`))
+				};
+			}
+
+			if (conversion && unitCheck!.warnNonCanonical) {
+				warning = {
+					valid: false,
+					severity: 'warning',
+					error: `Non-canonical unit "${unit}"`,
+					suggestion: `Use ${option.canonicalUnit}`,
+					fixes: [conversion]
 				};
 			}
 		} else {
@@ -72,12 +104,182 @@ export class OptionValidator {
 				return {
 					valid: false,
 					error: 'No unit expected',
-					suggestion: 'Enter plain number'
+					suggestion: 'Enter plain number',
+					fixes: [this.replaceFix(numText, true)]
 				};
 			}
 		}
 
-		return { valid: true };
+		return this.validateNumberConstraints(value, parseResult, option, unitCheck) || warning || { valid: true };
+	}
+
+	/**
+	 * Check a number against the option's range, integer, step and precision
+	 * The range is in the canonical unit (or the only unit); values in other units are converted to it first
+	 */
+	private static validateNumberConstraints(
+		value: string,
+		parseResult: { numValue: number; numText: string; unit?: string },
+		option: OptionItem,
+		unitCheck?: UnitCheck
+	): ValidationResult | null {
+		const { numValue, numText, unit } = parseResult;
+		// Fixes keep the unit as written: "7.3 h" -> "7.5 h"
+		const withNumber = (num: number) => `${num}${value.substring(numText.length)}`;
+		const fixes = () => this.getValidNumbers(numValue, option).map(num => this.replaceFix(withNumber(num)));
+
+		const boundUnit = option.canonicalUnit || (option.units && option.units.length === 1 ? option.units[0] : '');
+		const withUnit = (num: number) => boundUnit ? `${num} ${boundUnit}` : String(num);
+
+		// Null when the value can't be compared: several units but none canonical, or a unit that doesn't convert
+		const inBoundUnit = !unit || unit === boundUnit;
+		const comparable = inBoundUnit
+			? numValue
+			: boundUnit && unitCheck ? unitCheck.converter.convert(numValue, unit!, boundUnit) : null;
+		// Range fixes are in the bound unit: "5000 m" over "..3" km -> "3 km"
+		const separator = value.substring(numText.length).match(/^\s*/)![0];
+		const rangeFixes = () => inBoundUnit
+			? fixes()
+			: this.getValidNumbers(comparable!, option).map(num => this.replaceFix(`${num}${separator}${boundUnit}`));
+
+		if (comparable !== null && option.min !== undefined && comparable < option.min) {
+			return {
+				valid: false,
+				error: `Value must be at least ${withUnit(option.min)}`,
+				suggestion: this.describeNumberRange(option, withUnit),
+				fixes: rangeFixes()
+			};
+		}
+		if (comparable !== null && option.max !== undefined && comparable > option.max) {
+			return {
+				valid: false,
+				error: `Value must be at most ${withUnit(option.max)}`,
+				suggestion: this.describeNumberRange(option, withUnit),
+				fixes: rangeFixes()
+			};
+		}
+
+		if (option.integer && !Number.isInteger(numValue)) {
+			return {
+				valid: false,
+				error: 'Whole number expected',
+				suggestion: 'Enter a value without decimals',
+				fixes: fixes()
+			};
+		}
+
+		if (option.step && !this.isOnStep(numValue, option)) {
+			const from = option.min !== undefined && option.min !== 0 ? ` from ${option.min}` : '';
+			return {
+				valid: false,
+				error: `Value must be in steps of ${option.step}${from}`,
+				suggestion: `Nearest: ${this.getValidNumbers(numValue, option).join(', ')}`,
+				fixes: fixes()
+			};
+		}
+
+		if (option.precision !== undefined && this.countDecimals(numText) > option.precision) {
+			return {
+				valid: false,
+				error: `At most ${option.precision} ${option.precision === 1 ? 'decimal' : 'decimals'} allowed`,
+				suggestion: `Round to ${this.roundTo(numValue, option.precision)}`,
+				fixes: fixes()
+			};
+		}
+
+		return null;
+	}
+
+	/**
+	 * Valid numbers nearest to a value, nearest first
+	 * Clamped to the option's range, then snapped to its step (both neighbours) or rounded to integer / precision
+	 */
+	static getValidNumbers(value: number, option: OptionItem): number[] {
+		let num = value;
+		if (option.min !== undefined && num < option.min) num = option.min;
+		if (option.max !== undefined && num > option.max) num = option.max;
+
+		let candidates = [num];
+		if (option.step && !this.isOnStep(num, option)) {
+			const base = option.min ?? 0;
+			const decimals = Math.max(this.countDecimals(String(option.step)), this.countDecimals(String(base)));
+			const below = this.roundTo(base + Math.floor((num - base) / option.step) * option.step, decimals);
+			const above = this.roundTo(below + option.step, decimals);
+			candidates = (num - below <= above - num ? [below, above] : [above, below])
+				.filter(candidate => option.max === undefined || candidate <= option.max);
+		} else if (option.integer) {
+			candidates = [Math.round(num)];
+		}
+
+		if (option.integer) {
+			candidates = candidates.map(candidate => Math.round(candidate));
+		}
+		if (option.precision !== undefined) {
+			candidates = candidates.map(candidate => this.roundTo(candidate, option.precision!));
+		}
+		return candidates.filter((candidate, index) => candidates.indexOf(candidate) === index);
+	}
+
+	/**
+	 * Check a number against the option's range, integer and step
+	 */
+	private static meetsConstraints(value: number, option: OptionItem): boolean {
+		return (option.min === undefined || value >= option.min)
+			&& (option.max === undefined || value <= option.max)
+			&& (!option.integer || Number.isInteger(value))
+			&& (!option.step || this.isOnStep(value, option));
+	}
+
+	/**
+	 * Check if a number is a whole number of steps from the minimum (or 0)
+	 */
+	private static isOnStep(value: number, option: OptionItem): boolean {
+		const steps = (value - (option.min ?? 0)) / option.step!;
+		return Math.abs(steps - Math.round(steps)) < 1e-9;
+	}
+
+	private static describeNumberRange(option: OptionItem, withUnit: (num: number) => string): string {
+		if (option.min !== undefined && option.max !== undefined) {
+			return `Between ${withUnit(option.min)} and ${withUnit(option.max)}`;
+		}
+		return option.min !== undefined ? `Enter a value >= ${withUnit(option.min)}` : `Enter a value <= ${withUnit(option.max!)}`;
+	}
+
+	private static countDecimals(numText: string): number {
+		const decimals = numText.split('.')[1];
+		return decimals ? decimals.length : 0;
+	}
+
+	private static roundTo(value: number, decimals: number): number {
+		return parseFloat(value.toFixed(decimals));
+	}
+
+	/**
+	 * Fix converting a number to the option's canonical unit, e.g., "5 mi" -> "8.04672 km"
+	 * Rounded only when the option sets a precision
+	 * Only auto-applicable when the converted number meets the option's range, integer and step
+	 * Null if the value is already canonical, or its unit doesn't convert
+	 */
+	static getUnitConversion(value: string, option: OptionItem, converter: UnitConverter): QuickFix | null {
+		const canonical = option.canonicalUnit;
+		const parseResult = this.parseNumberWithUnit(value.trim());
+		if (!canonical || !parseResult || !parseResult.unit || parseResult.unit === canonical) return null;
+
+		const converted = converter.convert(parseResult.numValue, parseResult.unit, canonical);
+		if (converted === null) return null;
+
+		// Keep the spacing between number and unit ("5mi" -> "8.04672km")
+		const separator = value.trim().length > parseResult.numText.length + parseResult.unit.length ? ' ' : '';
+		const number = option.precision !== undefined
+			? String(this.roundTo(converted, option.precision))
+			: UnitConverter.formatNumber(converted);
+		const normalized = `${number}${separator}${canonical}`;
+		return {
+			label: `Convert to "${normalized}"`,
+			value: normalized,
+			unitConversion: true,
+			autoApplicable: this.meetsConstraints(parseFloat(number), option)
+		};
 	}
 
 	/**
@@ -88,10 +290,24 @@ export class OptionValidator {
 		const validValues = ['true', 'false', 'yes', 'no'];
 
 		if (!validValues.includes(lowerValue)) {
+			const closest = this.findClosest(lowerValue, ['true', 'false'], 2);
 			return {
 				valid: false,
 				error: 'Invalid boolean value',
-				suggestion: 'Valid: true, false, yes, no'
+				suggestion: 'Valid: true, false, yes, no',
+				fixes: this.candidateFixes(closest)
+			};
+		}
+
+		// Accepted, but "Yes", "no" or "TRUE" can be normalized to true/false
+		const canonical = lowerValue === 'yes' || lowerValue === 'true' ? 'true' : 'false';
+		if (value !== canonical) {
+			return {
+				valid: false,
+				severity: 'warning',
+				error: `Non-canonical boolean "${value}"`,
+				suggestion: `Use ${canonical}`,
+				fixes: [this.replaceFix(canonical, true)]
 			};
 		}
 
@@ -110,18 +326,141 @@ export class OptionValidator {
 			return {
 				valid: false,
 				error: 'Invalid value',
-				suggestion: `Valid: ${enumValues.join(', ')}`
+				suggestion: `Valid: ${enumValues.join(', ')}`,
+				fixes: this.candidateFixes(this.findClosest(value, enumValues))
 			};
 		}
 
 		return { valid: true };
 	}
 
+	/**
+	 * Validate duration type
+	 */
+	private static validateDuration(value: string, option: OptionItem): ValidationResult {
+		const format = option.format as DurationFormat | undefined;
+		const parsed = TimeParser.parseDuration(value);
+		// A plain number is most likely minutes or hours
+		const number = value.match(/^\d+(?:\.\d+)?$/) ? parseFloat(value) : null;
+		// Trailing minutes without a unit, completed like the suggester does: "1h30" -> "1h30m"
+		const completed = parsed === null && number === null ? TimeParser.parseDuration(value + 'm') : null;
+		const seconds = parsed ?? completed;
+
+		if (seconds === null) {
+			const candidates = (number === null ? [] : [number * 60, number * 3600])
+				.filter(candidate => (option.min === undefined || candidate >= option.min)
+					&& (option.max === undefined || candidate <= option.max));
+			return {
+				valid: false,
+				error: 'Invalid duration',
+				suggestion: 'Examples: 1h30m, 45 min, 01:30:00',
+				fixes: candidates.length > 0
+					? candidates.map(candidate => this.replaceFix(TimeParser.formatDuration(candidate, format)))
+					: undefined
+			};
+		}
+
+		if (option.min !== undefined && seconds < option.min) {
+			return {
+				valid: false,
+				error: `Shorter than ${TimeParser.formatDuration(option.min, format)}`,
+				suggestion: this.describeDurationRange(option)
+			};
+		}
+		if (option.max !== undefined && seconds > option.max) {
+			return {
+				valid: false,
+				error: `Longer than ${TimeParser.formatDuration(option.max, format)}`,
+				suggestion: this.describeDurationRange(option)
+			};
+		}
+
+		if (parsed === null) {
+			const fixed = TimeParser.formatDuration(seconds, format);
+			return {
+				valid: false,
+				error: `Incomplete duration "${value}"`,
+				suggestion: `Use ${fixed}`,
+				fixes: [this.replaceFix(fixed, true)]
+			};
+		}
+
+		// Valid, but can be written in the option's format
+		if (format) {
+			const canonical = TimeParser.formatDuration(seconds, format);
+			if (value !== canonical) {
+				return {
+					valid: false,
+					severity: 'warning',
+					error: `Non-canonical duration "${value}"`,
+					suggestion: `Use ${canonical}`,
+					fixes: [this.replaceFix(canonical, true)]
+				};
+			}
+		}
+
+		return { valid: true };
+	}
+
+	/**
+	 * Validate time of day type
+	 */
+	private static validateTime(value: string, option: OptionItem): ValidationResult {
+		const format = option.format as TimeFormat | undefined;
+		const seconds = TimeParser.parseTime(value);
+
+		if (seconds === null) {
+			// A bare hour: "7" -> 07:00, 19:00
+			const hour = value.match(/^\d{1,2}$/) ? parseInt(value, 10) : null;
+			const hours = (hour === null || hour > 23 ? [] : hour < 12 && hour > 0 ? [hour, hour + 12] : [hour])
+				.filter(h => TimeParser.isTimeInRange(h * 3600, option.min, option.max));
+			return {
+				valid: false,
+				error: 'Invalid time',
+				suggestion: 'Examples: 23:15, 7:05 am',
+				fixes: hours.length > 0 ? hours.map(h => this.replaceFix(TimeParser.formatTime(h * 3600, format))) : undefined
+			};
+		}
+
+		if (!TimeParser.isTimeInRange(seconds, option.min, option.max)) {
+			const from = option.min !== undefined ? TimeParser.formatTime(option.min, format) : '';
+			const to = option.max !== undefined ? TimeParser.formatTime(option.max, format) : '';
+			return {
+				valid: false,
+				error: 'Time out of range',
+				suggestion: from && to ? `Between ${from} and ${to}` : from ? `At ${from} or later` : `At ${to} or earlier`
+			};
+		}
+
+		if (format) {
+			const canonical = TimeParser.formatTime(seconds, format);
+			if (value !== canonical) {
+				return {
+					valid: false,
+					severity: 'warning',
+					error: `Non-canonical time "${value}"`,
+					suggestion: `Use ${canonical}`,
+					fixes: [this.replaceFix(canonical, true)]
+				};
+			}
+		}
+
+		return { valid: true };
+	}
+
+	private static describeDurationRange(option: OptionItem): string {
+		const format = option.format as DurationFormat | undefined;
+		const from = option.min !== undefined ? TimeParser.formatDuration(option.min, format) : '';
+		const to = option.max !== undefined ? TimeParser.formatDuration(option.max, format) : '';
+		if (from && to) return `Between ${from} and ${to}`;
+		return from ? `At least ${from}` : `At most ${to}`;
+	}
+
 	/**
 	 * Parse number with optional unit
 	 * Examples: "10", "10.5", "10km", "10 km"
 	 */
-	private static parseNumberWithUnit(value: string): { numValue: number; unit?: string } | null {
+	private static parseNumberWithUnit(value: string): { numValue: number; numText: string; unit?: string } | null {
 		const match = value.match(/^([-+]?\d+\.?\d*)\s*(.*)$/);
 		if (!match) {
 			return null;
@@ -137,10 +476,71 @@ export class OptionValidator {
 
 		return {
 			numValue,
+			numText: numPart,
 			unit: unitPart || undefined
 		};
 	}
 
+	/**
+	 * Find the candidates closest to a value by edit distance (case-insensitive)
+	 * Returns all candidates sharing the smallest distance, up to maxDistance
+	 * (default: a third of the value's length, at least 1), so unrelated values get no candidate
+	 */
+	static findClosest(value: string, candidates: string[], maxDistance?: number): string[] {
+		const lowerValue = value.toLowerCase();
+		const limit = maxDistance ?? Math.max(1, Math.floor(value.length / 3));
+		let best: string[] = [];
+		let bestDistance = Infinity;
+
+		for (const candidate of candidates) {
+			const distance = this.editDistance(lowerValue, candidate.toLowerCase());
+			if (distance > limit) continue;
+
+			if (distance < bestDistance) {
+				best = [candidate];
+				bestDistance = distance;
+			} else if (distance === bestDistance) {
+				best.push(candidate);
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * Levenshtein distance between two strings
+	 */
+	private static editDistance(a: string, b: string): number {
+		const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+		for (let i = 1; i <= a.length; i++) {
+			let diagonal = previous[0];
+			previous[0] = i;
+			for (let j = 1; j <= b.length; j++) {
+				const above = previous[j];
+				previous[j] = a[i - 1] === b[j - 1]
+					? diagonal
+					: Math.min(diagonal, above, previous[j - 1]) + 1;
+				diagonal = above;
+			}
+		}
+
+		return previous[b.length];
+	}
+
+	private static replaceFix(value: string, autoApplicable: boolean = false): QuickFix {
+		return autoApplicable
+			? { label: `Replace with "${value}"`, value, autoApplicable }
+			: { label: `Replace with "${value}"`, value };
+	}
+
+	/**
+	 * Fixes for candidate values; a single candidate is unambiguous and may be applied in bulk
+	 */
+	private static candidateFixes(values: string[]): QuickFix[] {
+		return values.map(value => this.replaceFix(value, values.length === 1));
+	}
+
 	/**
 	 * Get suggestion for number format
 	 */
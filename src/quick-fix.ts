@@ -0,0 +1,87 @@
+import { App, Editor, EditorChange, TFile } from 'obsidian';
+import { FrontmatterIssue, QuickFix } from './types';
+import { FrontmatterParser } from './frontmatter-parser';
+import { ValueValidatorExtension } from './value-validator-extension';
+
+/**
+ * Apply quick fixes from validation results
+ * Bulk fixes only use an issue's single auto-applicable fix; guesses are left for the tooltip
+ */
+export class QuickFixer {
+	/**
+	 * Fix all fixable issues in an editor as a single undoable change
+	 * Returns the number of fixed issues
+	 */
+	static applyToEditor(editor: Editor, issues: FrontmatterIssue[]): number {
+		const changes: EditorChange[] = this.getFixable(issues).map(issue => ({
+			from: { line: issue.line, ch: issue.from },
+			to: { line: issue.line, ch: issue.to },
+			text: this.getAutoFix(issue)!.value
+		}));
+
+		if (changes.length > 0) {
+			editor.transaction({ changes });
+		}
+		return changes.length;
+	}
+
+	/**
+	 * Fix all fixable issues in note text
+	 */
+	static applyToText(text: string, issues: FrontmatterIssue[]): { text: string; fixed: number } {
+		const fixable = this.getFixable(issues);
+		if (fixable.length === 0) {
+			return { text, fixed: 0 };
+		}
+
+		const lines = text.split('\n');
+		// Apply from the end of each line so earlier columns stay valid
+		const ordered = [...fixable].sort((a, b) => b.line - a.line || b.from - a.from);
+		for (const issue of ordered) {
+			const line = lines[issue.line];
+			lines[issue.line] = line.substring(0, issue.from) + this.getAutoFix(issue)!.value + line.substring(issue.to);
+		}
+
+		return { text: lines.join('\n'), fixed: fixable.length };
+	}
+
+	/**
+	 * Apply one chosen fix of an issue to note text
+	 */
+	static applyFixToText(text: string, issue: FrontmatterIssue, fix: QuickFix): string {
+		const lines = text.split('\n');
+		const line = lines[issue.line];
+		lines[issue.line] = line.substring(0, issue.from) + fix.value + line.substring(issue.to);
+		return lines.join('\n');
+	}
+
+	/**
+	 * Validate a file and fix its issues in place
+	 * The file is re-validated at write time, so stale reports are safe
+	 */
+	static async applyToFile(app: App, file: TFile, validator: ValueValidatorExtension): Promise<number> {
+		let fixed = 0;
+		await app.vault.process(file, (data) => {
+			const issues = validator.validateLines(FrontmatterParser.fromText(data), file);
+			const result = this.applyToText(data, issues);
+			fixed = result.fixed;
+			return result.text;
+		});
+		return fixed;
+	}
+
+	/**
+	 * The fix to apply in bulk: the only auto-applicable fix, or null if there is none or several
+	 */
+	static getAutoFix(issue: FrontmatterIssue): QuickFix | null {
+		const fixes = (issue.result.fixes || []).filter(fix => fix.autoApplicable);
+		return fixes.length === 1 ? fixes[0] : null;
+	}
+
+	/**
+	 * Issues that can be fixed in bulk
+	 */
+	static getFixable(issues: FrontmatterIssue[]): FrontmatterIssue[] {
+		return issues.filter(issue => this.getAutoFix(issue) !== null);
+	}
+}
@@ -1,12 +1,19 @@
-import { App, Modal, Setting } from 'obsidian';
-import { FieldRule, OptionItem } from './types';
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { DurationFormat, FieldRule, OptionItem, OptionSortOrder, OptionType, OutputShape, TimeFormat } from './types';
 import FrontmatterSuggesterPlugin from './main';
+import { DEFAULT_DATE_FORMAT } from './date-parser';
+import { FieldPathMatcher } from './field-path-matcher';
+import { renderScopeSettings } from './scope-settings';
+import { KeyRename, RenameBatch } from './key-renamer';
+import { KeyRenameModal } from './key-rename-modal';
+import { DURATION_FORMATS, TIME_FORMATS, TimeParser } from './time-parser';
 
 export class RuleEditorModal extends Modal {
 	private plugin: FrontmatterSuggesterPlugin;
 	private rule: FieldRule;
 	private ruleIndex: number;
 	private onSave: (rule: FieldRule) => Promise<void>;
+	private originalKeys: string[];  // Option keys when opened, to detect renamed keys
 
 	constructor(app: App, plugin: FrontmatterSuggesterPlugin, rule: FieldRule, ruleIndex: number, onSave: (rule: FieldRule) => Promise<void>) {
 		super(app);
@@ -14,7 +21,11 @@ export class RuleEditorModal extends Modal {
 		this.rule = rule;
 		this.ruleIndex = ruleIndex;
 		this.onSave = onSave;
-		this.titleEl.setText(`Edit Rule ${ruleIndex + 1}: ${rule.fieldPath || rule.parentField || '(not set)'}`);
+		// Only keys of saved rules can already be used in notes
+		this.originalKeys = plugin.settings.rules.some(existing => existing.id === rule.id)
+			? (rule.options || []).map(option => option.key)
+			: [];
+		this.titleEl.setText(`Edit Rule ${ruleIndex + 1}: ${rule.fieldPath || '(not set)'}`);
 	}
 
 	onOpen() {
@@ -22,52 +33,71 @@ export class RuleEditorModal extends Modal {
 		contentEl.empty();
 
 		// Store reference to title element for dynamic updates
-		let titleElement: HTMLElement | null = null;
+		const titleElement: HTMLElement = this.titleEl;
+		let previewElement: HTMLElement | null = null;
+
+		if (this.rule.pathSegments.length === 0) {
+			this.rule.pathSegments = [''];
+		}
 
 		// Helper function to update full field path
 		const updateFieldPath = async () => {
-			if (this.rule.parentField) {
-				this.rule.fieldPath = this.rule.childField
-					? `${this.rule.parentField}.${this.rule.childField}`
-					: this.rule.parentField;
-			} else {
-				this.rule.fieldPath = '';
-			}
+			this.rule.fieldPath = FieldPathMatcher.joinSegments(this.rule.pathSegments);
 
 			// Update modal title
-			if (titleElement) {
-				const displayPath = this.rule.fieldPath || this.rule.parentField || '(not set)';
-				titleElement.setText(`Edit Rule ${this.ruleIndex + 1}: ${displayPath}`);
+			const displayPath = this.rule.fieldPath || '(not set)';
+			titleElement.setText(`Edit Rule ${this.ruleIndex + 1}: ${displayPath}`);
+
+			if (previewElement) {
+				this.renderPathPreview(previewElement);
 			}
 		};
 
 		// Property Path Settings
 		contentEl.createEl('h3', { text: 'Property Path' });
 
-		new Setting(contentEl)
-			.setName('Parent Property')
-			.setDesc('e.g., "Habits Yestoday", "Tags", "Project"')
-			.addText(text => text
-				.setPlaceholder('Parent property name')
-				.setValue(this.rule.parentField)
-				.onChange(async (value) => {
-					this.rule.parentField = value;
-					await updateFieldPath();
-				})
-			);
+		const pathDesc = contentEl.createDiv({ cls: 'setting-item-description' });
+		pathDesc.setText('One property name per level, from top level down. Wildcards allowed: "Habits *", "*", "**"');
+
+		this.rule.pathSegments.forEach((segment, index) => {
+			const setting = new Setting(contentEl)
+				.setName(index === 0 ? 'Top-level property' : `Level ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder(index === 0 ? 'e.g., Habits Yestoday' : 'Nested property name')
+					.setValue(segment)
+					.onChange(async (value) => {
+						this.rule.pathSegments[index] = value;
+						await updateFieldPath();
+					})
+				);
+
+			// The top level is required; deeper levels can be removed
+			if (index > 0) {
+				setting.addExtraButton(button => button
+					.setIcon('x')
+					.setTooltip('Remove level')
+					.onClick(async () => {
+						this.rule.pathSegments.splice(index, 1);
+						await updateFieldPath();
+						this.onOpen();
+					})
+				);
+			}
+		});
 
 		new Setting(contentEl)
-			.setName('Child Property')
-			.setDesc('Optional - leave empty for top-level property')
-			.addText(text => text
-				.setPlaceholder('Child property name (optional)')
-				.setValue(this.rule.childField || '')
-				.onChange(async (value) => {
-					this.rule.childField = value || '';
-					await updateFieldPath();
+			.addButton(button => button
+				.setButtonText('+ Add nested level')
+				.onClick(() => {
+					this.rule.pathSegments.push('');
+					this.onOpen();
 				})
 			);
 
+		// Preview of vault paths matched by the rule
+		previewElement = contentEl.createDiv({ cls: 'frontmatter-path-preview setting-item-description' });
+		this.renderPathPreview(previewElement);
+
 		// Description
 		new Setting(contentEl)
 			.setName('Description')
@@ -80,6 +110,18 @@ export class RuleEditorModal extends Modal {
 				})
 			);
 
+		// Rule set
+		new Setting(contentEl)
+			.setName('Rule Set')
+			.setDesc('Optional - name of a set of rules, e.g., "Daily note". Used by "Insert frontmatter from rules"')
+			.addText(text => text
+				.setPlaceholder('Daily note')
+				.setValue(this.rule.ruleSet || '')
+				.onChange(async (value) => {
+					this.rule.ruleSet = value.trim() || undefined;
+				})
+			);
+
 		// Multi-select mode
 		new Setting(contentEl)
 			.setName('Enable Multi-Select')
@@ -91,6 +133,35 @@ export class RuleEditorModal extends Modal {
 				})
 			);
 
+		// Output shape
+		new Setting(contentEl)
+			.setName('Output Format')
+			.setDesc('How selected items are written under the property')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'': 'Auto (list for tags and files, otherwise sub-keys)',
+					'mapping': 'Sub-keys (hiking: )',
+					'block-list': 'List (- hiking)',
+					'flow-list': 'Inline list ([hiking, running])',
+					'scalar': 'Single value (status: done)'
+				})
+				.setValue(this.rule.outputShape || '')
+				.onChange(async (value) => {
+					this.rule.outputShape = (value || undefined) as OutputShape | undefined;
+				})
+			);
+
+		// Scope
+		contentEl.createEl('h3', { text: 'Applies To' });
+
+		const scopeDesc = contentEl.createDiv({ cls: 'setting-item-description' });
+		scopeDesc.setText('Leave empty to use this rule in all notes. All filled-in conditions must match. '
+			+ 'Conditions of the rule set (Settings > Rule Sets) apply as well.');
+
+		renderScopeSettings(contentEl, this.rule.scope, (scope) => {
+			this.rule.scope = scope;
+		});
+
 		// Source Type
 		contentEl.createEl('h3', { text: 'Source' });
 
@@ -115,6 +186,12 @@ export class RuleEditorModal extends Modal {
 		// Source-specific settings
 		if (this.rule.sourceType === 'inline') {
 			this.renderInlineOptions(contentEl);
+		} else if (this.rule.sourceType === 'vault-tags') {
+			this.renderVaultTagsSettings(contentEl);
+		} else if (this.rule.sourceType === 'vault-files') {
+			this.renderVaultFilesSettings(contentEl);
+		} else if (this.rule.sourceType === 'date') {
+			this.renderDateSettings(contentEl);
 		}
 
 		// Save and Cancel buttons
@@ -128,6 +205,7 @@ export class RuleEditorModal extends Modal {
 		saveButton.onclick = async () => {
 			await this.onSave(this.rule);
 			this.close();
+			this.offerKeyRenames();
 		};
 
 		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
@@ -135,18 +213,58 @@ export class RuleEditorModal extends Modal {
 		cancelButton.onclick = () => this.close();
 	}
 
+	/**
+	 * Open a rename preview for each option key renamed in this edit, one after another
+	 * The applied renames form a single batch, undone together
+	 */
+	private offerKeyRenames(): void {
+		if (this.plugin.settings.globalSettings.offerKeyRename === false) return;
+
+		const renames = this.findRenamedKeys();
+		const openNext = (batch: RenameBatch | null) => {
+			const rename = renames.shift();
+			if (rename) {
+				new KeyRenameModal(this.app, this.plugin, rename, openNext, batch).open();
+			}
+		};
+		openNext(null);
+	}
+
+	/**
+	 * Keys changed in place: same number of options, and the old key is gone while the new one is new
+	 * Added, removed or reordered options are not treated as renames
+	 */
+	private findRenamedKeys(): KeyRename[] {
+		const keys = (this.rule.options || []).map(option => option.key);
+		if (!this.rule.fieldPath || this.rule.sourceType !== 'inline' || keys.length !== this.originalKeys.length) return [];
+
+		const renames: KeyRename[] = [];
+		this.originalKeys.forEach((oldKey, index) => {
+			const newKey = keys[index];
+			if (oldKey !== newKey && !keys.includes(oldKey) && !this.originalKeys.includes(newKey)) {
+				renames.push({ fieldPath: this.rule.fieldPath!, oldKey, newKey });
+			}
+		});
+		return renames;
+	}
+
 	private renderInlineOptions(container: HTMLElement): void {
 		container.createEl('h4', { text: 'Options' });
 
 		const desc = container.createDiv({ cls: 'setting-item-description' });
 		desc.createEl('p', { text: 'Format: key: type | params (one per line)' });
-		desc.createEl('p', { text: 'Types: number, boolean, enum' });
+		desc.createEl('p', { text: 'Types: number, boolean, enum, duration, time' });
 		desc.createEl('p', { text: 'Examples:' });
 		const exampleList = desc.createEl('ul');
 		exampleList.createEl('li', { text: 'running: number | km, miles' });
-		exampleList.createEl('li', { text: 'push_ups: number' });
+		exampleList.createEl('li', { text: 'push_ups: number | 0..500 integer' });
+		exampleList.createEl('li', { text: 'sleep: number | h | 0..24 step 0.5' });
 		exampleList.createEl('li', { text: 'completed: boolean' });
 		exampleList.createEl('li', { text: 'mood: enum | happy, sad, tired' });
+		exampleList.createEl('li', { text: 'sleep: duration | 4h..12h | format h:mm' });
+		exampleList.createEl('li', { text: 'bedtime: time | 21:00..02:00 | format HH:mm' });
+		desc.createEl('p', { text: 'Groups: "# Cardio" starts a group, "## Legs" a subgroup, a bare "#" ends the group. Write an option starting with "# " as "\\# option"' });
+		desc.createEl('p', { text: 'Default values: add "= value" to insert it with the key, e.g. "hiking: number | km = 3 km". Use {{last}} for the previous note\'s value or {{date}} for today' });
 
 		const textArea = container.createEl('textarea', {
 			cls: 'frontmatter-options-textarea',
@@ -156,29 +274,29 @@ export class RuleEditorModal extends Modal {
 			}
 		});
 
-		// Convert options to text
-		const optionsText = (this.rule.options || [])
-			.map(opt => {
-				// New format with type
-				if (opt.type) {
-					let line = `${opt.key}: ${opt.type}`;
-					if (opt.type === 'number' && opt.units && opt.units.length > 0) {
-						line += ` | ${opt.units.join(', ')}`;
-					} else if (opt.type === 'enum' && opt.enumValues && opt.enumValues.length > 0) {
-						line += ` | ${opt.enumValues.join(', ')}`;
-					}
-					return line;
-				} else {
-					// Legacy format
-					let line = opt.key;
-					if (opt.description) line += ` | ${opt.description}`;
-					if (opt.icon) line += ` | ${opt.icon}`;
-					return line;
-				}
-			})
-			.join('\n');
+		// Convert options to text, with a header line wherever the group changes
+		const lines: string[] = [];
+		let previousGroup: string[] = [];
+		for (const opt of this.rule.options || []) {
+			const group = opt.group ? opt.group.split('/') : [];
 
-		textArea.value = optionsText;
+			let common = 0;
+			while (common < group.length && common < previousGroup.length && group[common] === previousGroup[common]) {
+				common++;
+			}
+			if (common === group.length && group.length < previousGroup.length) {
+				// Back to a parent group (or no group)
+				lines.push('#'.repeat(group.length + 1));
+			}
+			for (let level = common; level < group.length; level++) {
+				lines.push(`${'#'.repeat(level + 1)} ${group[level]}`);
+			}
+			previousGroup = group;
+
+			lines.push(this.formatOptionLine(opt));
+		}
+
+		textArea.value = lines.join('\n');
 
 		textArea.addEventListener('blur', async () => {
 			this.rule.options = this.parseOptionsText(textArea.value);
@@ -186,55 +304,373 @@ export class RuleEditorModal extends Modal {
 
 		const stats = container.createDiv({ cls: 'frontmatter-options-stats' });
 		stats.setText(`Lines: ${(this.rule.options || []).length}`);
+
+		new Setting(container)
+			.setName('Option Order')
+			.setDesc('Order of options in the suggestion list. Usage is remembered per rule')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'manual': 'As listed above',
+					'most-used': 'Most used first',
+					'most-recent': 'Most recently used first',
+					'alphabetical': 'Alphabetical'
+				})
+				.setValue(this.rule.optionSort || 'manual')
+				.onChange(async (value) => {
+					this.rule.optionSort = value as OptionSortOrder;
+				})
+			);
+	}
+
+	/**
+	 * Show which existing vault paths the rule path matches
+	 * Useful for wildcard paths like "*.Exercises" or "Log.**.notes"
+	 */
+	private renderPathPreview(container: HTMLElement): void {
+		container.empty();
+
+		const rulePath = this.rule.fieldPath;
+		if (!rulePath) return;
+
+		const matches = this.plugin.valueIndex.getFieldPaths()
+			.filter(path => FieldPathMatcher.matches(rulePath, path));
+
+		if (matches.length === 0) {
+			container.setText('No existing properties in the vault match this path yet');
+			return;
+		}
+
+		const maxShown = 10;
+		container.createDiv({
+			text: `Matches ${matches.length} existing ${matches.length === 1 ? 'path' : 'paths'} in the vault:`
+		});
+		const list = container.createEl('ul');
+		for (const path of matches.slice(0, maxShown)) {
+			list.createEl('li', { text: path });
+		}
+		if (matches.length > maxShown) {
+			list.createEl('li', { text: `... and ${matches.length - maxShown} more` });
+		}
+	}
+
+	private renderVaultTagsSettings(container: HTMLElement): void {
+		container.createEl('h4', { text: 'Tag Settings' });
+
+		const config = this.rule.tagsConfig || (this.rule.tagsConfig = {});
+
+		new Setting(container)
+			.setName('Tag subtree')
+			.setDesc('Optional - only suggest this tag and its nested tags (e.g., "health" for #health/sleep)')
+			.addText(text => text
+				.setPlaceholder('health')
+				.setValue(config.rootTag || '')
+				.onChange(async (value) => {
+					config.rootTag = value.trim() || undefined;
+				})
+			);
+
+		new Setting(container)
+			.setName('Insert with #')
+			.setDesc('Insert tags as "#tag" instead of plain "tag"')
+			.addToggle(toggle => toggle
+				.setValue(config.includeHash || false)
+				.onChange(async (value) => {
+					config.includeHash = value;
+				})
+			);
+	}
+
+	private renderVaultFilesSettings(container: HTMLElement): void {
+		container.createEl('h4', { text: 'File Settings' });
+
+		const config = this.rule.filesConfig || (this.rule.filesConfig = {});
+
+		new Setting(container)
+			.setName('Folder')
+			.setDesc('Optional - only suggest files under this folder (e.g., "Projects")')
+			.addText(text => text
+				.setPlaceholder('Projects')
+				.setValue(config.folder || '')
+				.onChange(async (value) => {
+					config.folder = value.trim() || undefined;
+				})
+			);
+
+		new Setting(container)
+			.setName('Extensions')
+			.setDesc('Optional - comma separated, e.g., "md, pdf" (empty = all files)')
+			.addText(text => text
+				.setPlaceholder('md')
+				.setValue((config.extensions || []).join(', '))
+				.onChange(async (value) => {
+					config.extensions = value.split(',').map(ext => ext.trim()).filter(ext => ext !== '');
+				})
+			);
+
+		new Setting(container)
+			.setName('Required tag')
+			.setDesc('Optional - only suggest notes with this tag (e.g., "project")')
+			.addText(text => text
+				.setPlaceholder('project')
+				.setValue(config.requiredTag || '')
+				.onChange(async (value) => {
+					config.requiredTag = value.trim() || undefined;
+				})
+			);
+
+		new Setting(container)
+			.setName('Link format')
+			.addDropdown(dropdown => dropdown
+				.addOptions({
+					'wikilink': 'Wikilink ([[Note]])',
+					'path': 'Plain path (Folder/Note.md)'
+				})
+				.setValue(config.linkFormat || 'wikilink')
+				.onChange(async (value) => {
+					config.linkFormat = value as 'wikilink' | 'path';
+				})
+			);
+	}
+
+	private renderDateSettings(container: HTMLElement): void {
+		container.createEl('h4', { text: 'Date Settings' });
+
+		const config = this.rule.dateConfig || (this.rule.dateConfig = {});
+
+		const desc = container.createDiv({ cls: 'setting-item-description' });
+		desc.createEl('p', { text: 'Type a date or a phrase to get suggestions:' });
+		const exampleList = desc.createEl('ul');
+		exampleList.createEl('li', { text: 'today, yesterday, tomorrow' });
+		exampleList.createEl('li', { text: 'next monday, last friday' });
+		exampleList.createEl('li', { text: '+3d, -2w, +1m' });
+		exampleList.createEl('li', { text: '2026-10' });
+
+		new Setting(container)
+			.setName('Date format')
+			.setDesc('Moment.js format used for inserted dates and validation')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_DATE_FORMAT)
+				.setValue(config.format || '')
+				.onChange(async (value) => {
+					config.format = value.trim() || undefined;
+				})
+			);
+	}
+
+	private formatOptionLine(opt: OptionItem): string {
+		// " = " in a description or value is escaped so it isn't read back as a default: "ratio | a \= b"
+		let line = this.formatOptionDefinition(opt).split(' = ').join(' \\= ');
+		// Keys starting with "#" are escaped so they aren't read back as group headers
+		if (line.startsWith('#')) line = `\\${line}`;
+		return opt.defaultValue ? `${line} = ${opt.defaultValue}` : line;
+	}
+
+	private formatOptionDefinition(opt: OptionItem): string {
+		// New format with type
+		if (opt.type) {
+			let line = `${opt.key}: ${opt.type}`;
+			if (opt.type === 'number') {
+				if (opt.units && opt.units.length > 0) line += ` | ${opt.units.join(', ')}`;
+				const constraints = this.formatNumberConstraints(opt);
+				if (constraints) line += ` | ${constraints}`;
+				if (opt.canonicalUnit) line += ` | canonical ${opt.canonicalUnit}`;
+			} else if (opt.type === 'enum' && opt.enumValues && opt.enumValues.length > 0) {
+				line += ` | ${opt.enumValues.join(', ')}`;
+			} else if (opt.type === 'duration' || opt.type === 'time') {
+				if (opt.min !== undefined || opt.max !== undefined) {
+					const format = (seconds?: number) => seconds === undefined ? ''
+						: opt.type === 'duration'
+							? TimeParser.formatDuration(seconds, opt.format as DurationFormat)
+							: TimeParser.formatTime(seconds, opt.format as TimeFormat);
+					line += ` | ${format(opt.min)}..${format(opt.max)}`;
+				}
+				if (opt.format) line += ` | format ${opt.format}`;
+			}
+			return line;
+		} else {
+			// Legacy format
+			let line = opt.key;
+			if (opt.description) line += ` | ${opt.description}`;
+			if (opt.icon) line += ` | ${opt.icon}`;
+			return line;
+		}
 	}
 
 	private parseOptionsText(text: string): OptionItem[] {
-		return text.split('\n')
-			.map(line => line.trim())
-			.filter(line => line !== '')
-			.map(line => {
-				// New format: "key: type | param1, param2"
-				// Old format: "key | description | icon"
-
-				// Check if line contains type declaration (has ":")
-				if (line.includes(':')) {
-					return this.parseTypedOption(line);
-				} else {
-					// Legacy format
-					const parts = line.split('|').map(p => p.trim());
-					return {
-						key: parts[0],
-						description: parts[1] || undefined,
-						icon: parts[2] || undefined
-					};
+		const options: OptionItem[] = [];
+		// Current group path, one name per heading level
+		let groupPath: string[] = [];
+
+		for (const rawLine of text.split('\n')) {
+			let line = rawLine.trim();
+			if (line === '') continue;
+
+			// Group header: "# Cardio", "## Legs"; a bare "#" closes the group at that level
+			// Options like "#urgent" are not headers
+			const header = line.match(/^(#+)(?:\s+(.*))?$/);
+			if (header) {
+				const level = header[1].length;
+				groupPath = groupPath.slice(0, level - 1);
+				if (header[2] && header[2].trim()) {
+					groupPath[level - 1] = header[2].trim();
 				}
-			})
-			.filter(opt => opt.key !== '');
+				continue;
+			}
+
+			// Escaped key starting with "#": "\# urgent"
+			if (line.startsWith('\\#')) {
+				line = line.substring(1);
+			}
+
+			// New format: "key: type | param1, param2"
+			// Old format: "key | description | icon"
+			// Either may end with a default value: "= 3 km" (an escaped " \= " is part of the definition)
+			const defaultIndex = line.indexOf(' = ');
+			const definition = (defaultIndex === -1 ? line : line.substring(0, defaultIndex).trim()).split(' \\= ').join(' = ');
+			const defaultValue = defaultIndex === -1 ? '' : line.substring(defaultIndex + 3).trim();
+
+			// Check if line contains type declaration (has ":")
+			let option: OptionItem;
+			if (definition.includes(':')) {
+				option = this.parseTypedOption(definition);
+			} else {
+				// Legacy format
+				const parts = definition.split('|').map(p => p.trim());
+				option = {
+					key: parts[0],
+					description: parts[1] || undefined,
+					icon: parts[2] || undefined
+				};
+			}
+
+			if (option.key === '') continue;
+
+			if (defaultValue) {
+				option.defaultValue = defaultValue;
+			}
+
+			// Skipped heading levels ("# A" then "### B") leave no empty names in the path
+			const group = groupPath.filter(name => name).join('/');
+			if (group) {
+				option.group = group;
+			}
+			options.push(option);
+		}
+
+		return options;
 	}
 
 	private parseTypedOption(line: string): OptionItem {
-		// Format: "key: type | param1, param2"
+		// Format: "key: type | param1, param2 | canonical unit"
+		// Number constraints: "key: number | h | 0..24 step 0.5"
+		// Duration and time: "key: duration | 4h..12h | format h:mm"
 		const colonIndex = line.indexOf(':');
 		const key = line.substring(0, colonIndex).trim();
 		const rest = line.substring(colonIndex + 1).trim();
 
 		const parts = rest.split('|').map(p => p.trim());
-		const type = parts[0] as 'number' | 'boolean' | 'enum';
+		const type = parts[0] as OptionType;
 
 		const option: OptionItem = { key, type };
 
 		// Parse type-specific parameters
-		if (type === 'number' && parts[1]) {
-			// Units: "km, miles"
-			option.units = parts[1].split(',').map(u => u.trim()).filter(u => u !== '');
+		if (type === 'number') {
+			parts.slice(1).forEach((part, index) => {
+				const canonical = part.match(/^canonical\s+(.+)$/);
+				const constraints = this.parseNumberConstraints(part);
+				if (canonical) {
+					// Canonical unit: "canonical km"
+					option.canonicalUnit = canonical[1].trim();
+				} else if (constraints) {
+					// Range, step, integer, precision: "0..24 step 0.5"
+					Object.assign(option, constraints);
+				} else if (index === 0 && part) {
+					// Units: "km, miles"
+					option.units = part.split(',').map(u => u.trim()).filter(u => u !== '');
+				}
+			});
+
+			// The canonical unit is also allowed as a unit
+			if (option.canonicalUnit && !(option.units || []).includes(option.canonicalUnit)) {
+				option.units = [...(option.units || []), option.canonicalUnit];
+			}
+
+			// With several units, a range needs a canonical unit to say which unit it is in
+			if ((option.min !== undefined || option.max !== undefined) && !option.canonicalUnit && (option.units || []).length > 1) {
+				delete option.min;
+				delete option.max;
+				new Notice(`Range of "${key}" ignored: add a canonical unit (e.g., "canonical ${option.units![0]}")`);
+			}
 		} else if (type === 'enum' && parts[1]) {
 			// Enum values: "happy, neutral, sad"
 			option.enumValues = parts[1].split(',').map(v => v.trim()).filter(v => v !== '');
+		} else if (type === 'duration' || type === 'time') {
+			const parse = (text: string) => type === 'duration' ? TimeParser.parseDuration(text) : TimeParser.parseTime(text);
+			const formats: string[] = type === 'duration' ? DURATION_FORMATS : TIME_FORMATS;
+
+			for (const part of parts.slice(1)) {
+				// Canonical format: "format h:mm"
+				const format = part.match(/^format\s+(.+)$/);
+				if (format && formats.includes(format[1].trim())) {
+					option.format = format[1].trim() as DurationFormat | TimeFormat;
+					continue;
+				}
+
+				// Bounds: "4h..12h", "..2h", "06:00.."
+				const range = part.split('..');
+				if (range.length === 2) {
+					const min = range[0].trim() ? parse(range[0]) : null;
+					const max = range[1].trim() ? parse(range[1]) : null;
+					if (min !== null) option.min = min;
+					if (max !== null) option.max = max;
+				}
+			}
 		}
 
 		return option;
 	}
 
+	/**
+	 * Parse number constraints like "0..24 step 0.5", "1.. integer" or "..100 precision 1"
+	 * Returns null if the text isn't made of constraints only (e.g., a unit list)
+	 */
+	private parseNumberConstraints(text: string): Partial<OptionItem> | null {
+		const constraints: Partial<OptionItem> = {};
+		const tokens = text.split(/\s+/).filter(token => token !== '');
+		const isNumber = (token?: string) => token !== undefined && /^[-+]?\d+(?:\.\d+)?$/.test(token);
+
+		for (let i = 0; i < tokens.length; i++) {
+			const token = tokens[i].toLowerCase();
+			const range = token.match(/^([-+]?\d+(?:\.\d+)?)?\.\.([-+]?\d+(?:\.\d+)?)?$/);
+
+			if (range && (range[1] || range[2])) {
+				if (range[1]) constraints.min = parseFloat(range[1]);
+				if (range[2]) constraints.max = parseFloat(range[2]);
+			} else if (token === 'step' && isNumber(tokens[i + 1]) && parseFloat(tokens[i + 1]) > 0) {
+				constraints.step = parseFloat(tokens[++i]);
+			} else if (token === 'precision' && /^\d+$/.test(tokens[i + 1] || '')) {
+				constraints.precision = parseInt(tokens[++i], 10);
+			} else if (token === 'integer' || token === 'int') {
+				constraints.integer = true;
+			} else {
+				return null;
+			}
+		}
+
+		return tokens.length > 0 ? constraints : null;
+	}
+
+	private formatNumberConstraints(opt: OptionItem): string {
+		const parts: string[] = [];
+		if (opt.min !== undefined || opt.max !== undefined) {
+			parts.push(`${opt.min ?? ''}..${opt.max ?? ''}`);
+		}
+		if (opt.step) parts.push(`step ${opt.step}`);
+		if (opt.integer) parts.push('integer');
+		if (opt.precision !== undefined) parts.push(`precision ${opt.precision}`);
+		return parts.join(' ');
+	}
+
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
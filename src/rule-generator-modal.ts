@@ -0,0 +1,206 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import FrontmatterSuggesterPlugin from './main';
+import { FieldRule } from './types';
+import { RuleGenerator, RuleProposal } from './rule-generator';
+import { RuleEditorModal } from './rule-editor-modal';
+
+interface ProposalState extends RuleProposal {
+	accepted: boolean;
+	existing: boolean;  // A rule for this property path already exists
+}
+
+/**
+ * "Generate rules from vault" wizard
+ * Scans a folder, then lets the user accept, edit or discard each proposed rule
+ */
+export class RuleGeneratorModal extends Modal {
+	private plugin: FrontmatterSuggesterPlugin;
+	private folder: string = '';
+	private proposals: ProposalState[] | null = null;
+	private onAdded?: () => void;
+
+	constructor(app: App, plugin: FrontmatterSuggesterPlugin, onAdded?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.onAdded = onAdded;
+		this.titleEl.setText('Generate rules from vault');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Scan notes in this folder and its subfolders (empty = whole vault)')
+			.addText(text => text
+				.setPlaceholder('Journal')
+				.setValue(this.folder)
+				.onChange(value => {
+					this.folder = value;
+				})
+			)
+			.addButton(button => button
+				.setButtonText('Scan')
+				.setCta()
+				.onClick(() => this.scan())
+			);
+
+		if (this.proposals) {
+			this.renderProposals(contentEl);
+		}
+	}
+
+	/**
+	 * Scan the folder and propose rules
+	 * Properties that already have a rule are proposed unchecked
+	 */
+	private scan(): void {
+		const existingPaths = new Set(this.plugin.settings.rules.map(rule => rule.fieldPath));
+
+		this.proposals = RuleGenerator.generate(this.app, this.folder).map(proposal => {
+			const existing = existingPaths.has(proposal.rule.fieldPath);
+			return { ...proposal, existing, accepted: !existing };
+		});
+		this.onOpen();
+	}
+
+	private renderProposals(container: HTMLElement): void {
+		const proposals = this.proposals || [];
+
+		container.createEl('h3', { text: `Proposed Rules (${proposals.length})` });
+
+		if (proposals.length === 0) {
+			container.createDiv({
+				cls: 'setting-item-description',
+				text: 'No frontmatter properties found in at least two notes'
+			});
+			return;
+		}
+
+		const listEl = container.createDiv({ cls: 'frontmatter-generated-rules' });
+		proposals.forEach((proposal, index) => {
+			const noteText = `${proposal.noteCount} ${proposal.noteCount === 1 ? 'note' : 'notes'}`;
+			const setting = new Setting(listEl)
+				.setName(proposal.rule.pathSegments.join(' > '))
+				.setDesc(`${this.describeRule(proposal.rule)} · ${noteText}${proposal.existing ? ' · already has a rule' : ''}`)
+				.addToggle(toggle => toggle
+					.setTooltip('Add this rule')
+					.setValue(proposal.accepted)
+					.onChange(value => {
+						proposal.accepted = value;
+						this.updateAddButton();
+					})
+				)
+				.addExtraButton(button => button
+					.setIcon('pencil')
+					.setTooltip('Edit')
+					.onClick(() => this.editProposal(proposal))
+				)
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Discard')
+					.onClick(() => {
+						proposals.splice(index, 1);
+						this.onOpen();
+					})
+				);
+			setting.settingEl.toggleClass('frontmatter-generated-rule-existing', proposal.existing);
+		});
+
+		const buttonContainer = container.createDiv({ cls: 'modal-button-container' });
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.gap = '10px';
+		buttonContainer.style.marginTop = '20px';
+
+		const addButton = buttonContainer.createEl('button', { cls: 'mod-cta frontmatter-generate-add' });
+		addButton.style.flex = '1';
+		addButton.onclick = async () => {
+			await this.addAccepted();
+			this.close();
+		};
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.style.flex = '1';
+		cancelButton.onclick = () => this.close();
+
+		this.updateAddButton();
+	}
+
+	private updateAddButton(): void {
+		const addButton = this.contentEl.querySelector<HTMLButtonElement>('.frontmatter-generate-add');
+		if (!addButton) return;
+
+		const count = (this.proposals || []).filter(proposal => proposal.accepted).length;
+		addButton.setText(`Add ${count} ${count === 1 ? 'rule' : 'rules'}`);
+		addButton.disabled = count === 0;
+	}
+
+	/**
+	 * Open a proposal in the rule editor; saving it also accepts it
+	 */
+	private editProposal(proposal: ProposalState): void {
+		const modal = new RuleEditorModal(
+			this.app,
+			this.plugin,
+			JSON.parse(JSON.stringify(proposal.rule)), // Deep copy
+			this.plugin.settings.rules.length,
+			async (updatedRule) => {
+				proposal.rule = updatedRule;
+				proposal.accepted = true;
+				this.onOpen();
+			}
+		);
+		modal.open();
+	}
+
+	private async addAccepted(): Promise<void> {
+		const accepted = (this.proposals || []).filter(proposal => proposal.accepted);
+		this.plugin.settings.rules.push(...accepted.map(proposal => proposal.rule));
+		await this.plugin.saveSettings();
+		this.plugin.updateSuggester();
+		this.onAdded?.();
+		new Notice(`Added ${accepted.length} ${accepted.length === 1 ? 'rule' : 'rules'}`);
+	}
+
+	/**
+	 * Short summary of a proposed rule, e.g., "Sub-keys: running (number, km), done (boolean)"
+	 */
+	private describeRule(rule: FieldRule): string {
+		const options = rule.options || [];
+
+		switch (rule.sourceType) {
+			case 'vault-tags':
+				return 'Vault tags';
+			case 'vault-files':
+				return rule.outputShape === 'scalar' ? 'Link to a note' : 'List of note links';
+			case 'date':
+				return rule.outputShape === 'block-list' ? 'List of dates' : 'Date';
+			case 'recent-values':
+				return rule.outputShape === 'scalar' ? 'Text (suggests recent values)' : 'List (suggests recent values)';
+		}
+
+		if (rule.valueConfig?.type === 'number') {
+			const units = (rule.valueConfig.units || []).map(unit => unit.unit);
+			return units.length > 0 ? `Number (${units.join(', ')})` : 'Number';
+		}
+
+		const shown = options.slice(0, 6).map(option => {
+			if (option.type === 'number') {
+				return option.units ? `${option.key} (number, ${option.units.join(', ')})` : `${option.key} (number)`;
+			}
+			if (option.type === 'enum') return `${option.key} (${(option.enumValues || []).join(' / ')})`;
+			if (option.type === 'boolean') return `${option.key} (boolean)`;
+			return option.key;
+		});
+		const more = options.length > shown.length ? `, +${options.length - shown.length} more` : '';
+
+		if (rule.outputShape === 'scalar') return `One of: ${shown.join(', ')}${more}`;
+		if (rule.outputShape === 'block-list') return `List of: ${shown.join(', ')}${more}`;
+		return `Sub-keys: ${shown.join(', ')}${more}`;
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,288 @@
+import { App, normalizePath } from 'obsidian';
+import { FieldRule, OptionItem, generateRuleId } from './types';
+import { FieldPathMatcher } from './field-path-matcher';
+
+// Property seen in the scanned notes
+interface PathStats {
+	path: string[];
+	notes: number;                   // Notes using the property
+	kinds: Record<ValueKind, number>; // Notes per value kind
+	values: Map<string, number>;     // Plain value or list item -> number of uses
+	children: Set<string>;           // Sub-keys, for mappings
+}
+
+type ValueKind = 'object' | 'array' | 'scalar';
+
+/**
+ * Value type inferred from observed values
+ */
+export type InferredType =
+	| { type: 'number'; units: string[] }
+	| { type: 'boolean'; values: string[] }
+	| { type: 'enum'; values: string[] }
+	| { type: 'date' }
+	| { type: 'link' }
+	| { type: 'text' };
+
+export interface RuleProposal {
+	rule: FieldRule;
+	noteCount: number;  // Notes using the property
+}
+
+const MAX_ENUM_VALUES = 10;   // More distinct values than this is free text
+const MAX_LIST_CHOICES = 30;  // Lists with more distinct items suggest recent values instead
+const NUMBER_PATTERN = /^[-+]?\d+(?:\.\d+)?\s*([^\d\s.][^\s]*)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no'];
+
+/**
+ * Propose rules from the frontmatter of existing notes
+ * - Mappings of plain values become a rule with one option per sub-key
+ * - Lists become tag, file, date, option or recent-value rules
+ * - Top-level plain values become single-value rules
+ */
+export class RuleGenerator {
+	/**
+	 * Scan notes under a folder ("" for the whole vault) and propose rules, most used first
+	 */
+	static generate(app: App, folder: string): RuleProposal[] {
+		const root = folder.trim() ? normalizePath(folder.trim()) : '';
+		const files = app.vault.getMarkdownFiles()
+			.filter(file => !root || root === '/' || file.path.startsWith(root + '/'));
+
+		const stats: Map<string, PathStats> = new Map();
+		for (const file of files) {
+			const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) continue;
+
+			const { position, ...properties } = frontmatter as Record<string, any>;
+			this.collect(properties, [], stats);
+		}
+
+		// Properties used only once are usually typos or one-offs
+		const minNotes = files.length > 1 ? 2 : 1;
+		const proposals: RuleProposal[] = [];
+
+		for (const entry of stats.values()) {
+			if (entry.path.length === 0 || entry.notes < minNotes) continue;
+
+			const kind = this.getDominantKind(entry);
+			const parent = stats.get(this.getKey(entry.path.slice(0, -1)));
+			const isSubKey = !!parent && parent.path.length > 0 && this.getDominantKind(parent) === 'object';
+
+			let rule: FieldRule | null = null;
+			if (kind === 'object') {
+				rule = this.proposeMapping(entry, stats, minNotes);
+			} else if (kind === 'array') {
+				rule = this.proposeList(entry);
+			} else if (!isSubKey) {
+				// Plain values under a mapping are options of the mapping's rule
+				rule = this.proposeScalar(entry);
+			}
+
+			if (rule) {
+				proposals.push({ rule, noteCount: entry.notes });
+			}
+		}
+
+		return proposals.sort((a, b) => b.noteCount - a.noteCount
+			|| (a.rule.fieldPath || '').localeCompare(b.rule.fieldPath || ''));
+	}
+
+	/**
+	 * Infer a value type from observed values
+	 */
+	static inferType(values: Map<string, number>): InferredType {
+		const distinct = Array.from(values.keys());
+		if (distinct.length === 0) return { type: 'text' };
+
+		if (distinct.every(value => DATE_PATTERN.test(value))) return { type: 'date' };
+		if (distinct.every(value => value.startsWith('[['))) return { type: 'link' };
+		if (distinct.every(value => BOOLEAN_VALUES.includes(value.toLowerCase()))) return { type: 'boolean', values: this.byCount(values) };
+
+		if (distinct.every(value => NUMBER_PATTERN.test(value))) {
+			const unitCounts: Map<string, number> = new Map();
+			for (const [value, count] of values) {
+				const unit = value.match(NUMBER_PATTERN)![1];
+				if (unit) unitCounts.set(unit, (unitCounts.get(unit) || 0) + count);
+			}
+			return { type: 'number', units: this.byCount(unitCounts) };
+		}
+
+		// Few distinct values, and some of them repeat
+		const total = Array.from(values.values()).reduce((sum, count) => sum + count, 0);
+		if (distinct.length <= MAX_ENUM_VALUES && total > distinct.length) {
+			return { type: 'enum', values: this.byCount(values) };
+		}
+
+		return { type: 'text' };
+	}
+
+	/**
+	 * Rule for a mapping: its plain-valued sub-keys become options
+	 * Mappings that only contain other mappings or lists get no rule of their own
+	 */
+	private static proposeMapping(entry: PathStats, stats: Map<string, PathStats>, minNotes: number): FieldRule | null {
+		const options: { option: OptionItem; notes: number }[] = [];
+
+		for (const key of entry.children) {
+			const child = stats.get(this.getKey([...entry.path, key]));
+			if (!child || child.notes < minNotes || this.getDominantKind(child) !== 'scalar') continue;
+
+			options.push({ option: this.createOption(key, this.inferType(child.values)), notes: child.notes });
+		}
+		if (options.length === 0) return null;
+
+		const rule = this.createRule(entry.path);
+		rule.options = options
+			.sort((a, b) => b.notes - a.notes)
+			.map(item => item.option);
+		return rule;
+	}
+
+	/**
+	 * Rule for a list, chosen by what its items look like
+	 */
+	private static proposeList(entry: PathStats): FieldRule {
+		const rule = this.createRule(entry.path);
+		const inferred = this.inferType(entry.values);
+
+		if (entry.path.length === 1 && entry.path[0].toLowerCase() === 'tags') {
+			rule.sourceType = 'vault-tags';
+		} else if (inferred.type === 'link') {
+			rule.sourceType = 'vault-files';
+		} else if (inferred.type === 'date') {
+			rule.sourceType = 'date';
+			rule.outputShape = 'block-list';
+		} else if (entry.values.size > 0 && entry.values.size <= MAX_LIST_CHOICES) {
+			rule.options = this.byCount(entry.values).map(key => ({ key }));
+			rule.outputShape = 'block-list';
+			rule.multiSelect = true;
+		} else {
+			rule.sourceType = 'recent-values';
+			rule.outputShape = 'block-list';
+		}
+
+		return rule;
+	}
+
+	/**
+	 * Rule for a top-level plain value
+	 */
+	private static proposeScalar(entry: PathStats): FieldRule {
+		const rule = this.createRule(entry.path);
+		rule.outputShape = 'scalar';
+
+		const inferred = this.inferType(entry.values);
+		switch (inferred.type) {
+			case 'date':
+				rule.sourceType = 'date';
+				break;
+			case 'link':
+				rule.sourceType = 'vault-files';
+				break;
+			case 'boolean':
+			case 'enum':
+				// The values as written ("yes"/"no" stay), so existing notes match
+				rule.options = inferred.values.map(key => ({ key }));
+				break;
+			case 'number':
+				rule.valueConfig = {
+					type: 'number',
+					units: inferred.units.map(unit => ({ unit })),
+					unitBehavior: inferred.units.length > 0 ? 'optional' : 'none'
+				};
+				break;
+			default:
+				rule.sourceType = 'recent-values';
+		}
+
+		return rule;
+	}
+
+	private static createOption(key: string, inferred: InferredType): OptionItem {
+		const option: OptionItem = { key };
+		if (inferred.type === 'number') {
+			option.type = 'number';
+			if (inferred.units.length > 0) option.units = inferred.units;
+		} else if (inferred.type === 'boolean' && inferred.values.every(value => value === 'true' || value === 'false')) {
+			option.type = 'boolean';
+		} else if (inferred.type === 'boolean' || inferred.type === 'enum') {
+			// "yes"/"no" or "True" would be flagged as booleans; keep them as written
+			option.type = 'enum';
+			option.enumValues = inferred.values;
+		}
+		return option;
+	}
+
+	private static createRule(path: string[]): FieldRule {
+		return {
+			id: generateRuleId(),
+			enabled: true,
+			pathSegments: [...path],
+			fieldPath: FieldPathMatcher.joinSegments(path),
+			sourceType: 'inline',
+			displayFormat: {
+				showDescription: true,
+				showIcon: true
+			},
+			description: ''
+		};
+	}
+
+	/**
+	 * Walk a note's frontmatter and add it to the statistics (each property once per note)
+	 */
+	private static collect(value: any, path: string[], stats: Map<string, PathStats>): void {
+		if (value === null || value === undefined) return;
+
+		const key = this.getKey(path);
+		let entry = stats.get(key);
+		if (!entry) {
+			entry = { path, notes: 0, kinds: { object: 0, array: 0, scalar: 0 }, values: new Map(), children: new Set() };
+			stats.set(key, entry);
+		}
+		entry.notes++;
+
+		if (Array.isArray(value)) {
+			entry.kinds.array++;
+			const items = new Set(value.filter(item => this.isScalar(item)).map(item => String(item).trim()));
+			for (const item of items) {
+				if (item) entry.values.set(item, (entry.values.get(item) || 0) + 1);
+			}
+		} else if (typeof value === 'object') {
+			entry.kinds.object++;
+			for (const childKey of Object.keys(value)) {
+				entry.children.add(childKey);
+				this.collect(value[childKey], [...path, childKey], stats);
+			}
+		} else if (this.isScalar(value)) {
+			entry.kinds.scalar++;
+			const text = String(value).trim();
+			if (text) entry.values.set(text, (entry.values.get(text) || 0) + 1);
+		}
+	}
+
+	private static getDominantKind(entry: PathStats): ValueKind {
+		const { object, array, scalar } = entry.kinds;
+		if (object >= array && object >= scalar && object > 0) return 'object';
+		return array > scalar ? 'array' : 'scalar';
+	}
+
+	/**
+	 * Keys sorted by count, most used first
+	 */
+	private static byCount(counts: Map<string, number>): string[] {
+		return Array.from(counts.entries())
+			.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+			.map(([key]) => key);
+	}
+
+	private static getKey(path: string[]): string {
+		return path.join('\n');
+	}
+
+	private static isScalar(value: any): boolean {
+		return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+	}
+}
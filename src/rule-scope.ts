@@ -0,0 +1,178 @@
+import { App, TFile, getAllTags, normalizePath } from 'obsidian';
+import { FieldRule, LineSource, PluginSettings, RuleScope } from './types';
+import { FrontmatterParser } from './frontmatter-parser';
+import { TagSource } from './tag-source';
+
+// What a scope is checked against
+export interface NoteScopeContext {
+	folder: string;   // Parent folder path ("" for vault root)
+	basename: string; // File name without extension
+	tags: string[];   // Normalized, lowercase tags
+	types: string[];  // Lowercase values of the frontmatter `type` property
+}
+
+/**
+ * Decide which rules apply to a note
+ * A rule applies if its own scope and the scope of its rule set both match
+ * All conditions of a scope must match; an empty scope matches every note
+ */
+export class RuleScopeMatcher {
+	/**
+	 * Build the scope context of a note
+	 * `type` is read from the given lines, so unsaved edits count;
+	 * tags come from the metadata cache
+	 */
+	static getContext(app: App, file: TFile, lines?: LineSource): NoteScopeContext {
+		const cache = app.metadataCache.getFileCache(file);
+		const tags = cache ? (getAllTags(cache) || []) : [];
+		const parentPath = file.parent?.path || '';
+
+		let types: string[];
+		if (lines) {
+			types = this.getTypesFromLines(lines);
+		} else {
+			const type = cache?.frontmatter?.type;
+			types = (Array.isArray(type) ? type : type != null ? [type] : []).map(t => String(t));
+		}
+
+		return {
+			folder: parentPath === '/' ? '' : parentPath,
+			basename: file.basename,
+			tags: tags.map(tag => TagSource.normalizeTag(tag).toLowerCase()),
+			types: types.map(t => t.trim().toLowerCase())
+		};
+	}
+
+	/**
+	 * Rules that apply to a note
+	 * Without a context (no file) every rule applies
+	 */
+	static getApplicableRules(settings: PluginSettings, context: NoteScopeContext | null): FieldRule[] {
+		if (!context) return settings.rules;
+		return settings.rules.filter(rule => this.appliesTo(settings, rule, context));
+	}
+
+	/**
+	 * Check if a rule applies to a note
+	 */
+	static appliesTo(settings: PluginSettings, rule: FieldRule, context: NoteScopeContext): boolean {
+		if (rule.scope && !this.matches(rule.scope, context)) return false;
+
+		const ruleSetScope = rule.ruleSet ? this.getRuleSetScope(settings, rule.ruleSet) : undefined;
+		return !ruleSetScope || this.matches(ruleSetScope, context);
+	}
+
+	/**
+	 * Scope of a named rule set, if one is configured
+	 */
+	static getRuleSetScope(settings: PluginSettings, name: string): RuleScope | undefined {
+		return settings.ruleSets?.find(ruleSet => ruleSet.name === name)?.scope;
+	}
+
+	/**
+	 * Check all conditions of a scope
+	 */
+	static matches(scope: RuleScope, context: NoteScopeContext): boolean {
+		if (scope.folder && !this.matchesFolder(scope.folder, context.folder)) {
+			return false;
+		}
+
+		if (scope.tag) {
+			const tag = TagSource.normalizeTag(scope.tag).toLowerCase();
+			if (!context.tags.some(t => t === tag || t.startsWith(tag + '/'))) {
+				return false;
+			}
+		}
+
+		if (scope.filePattern) {
+			try {
+				if (!new RegExp(scope.filePattern).test(context.basename)) return false;
+			} catch (error) {
+				// An invalid pattern matches nothing rather than everything
+				return false;
+			}
+		}
+
+		if (scope.noteType && !context.types.includes(scope.noteType.trim().toLowerCase())) {
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Check if a scope has any condition
+	 */
+	static isEmpty(scope?: RuleScope): boolean {
+		return !scope || !(scope.folder || scope.tag || scope.filePattern || scope.noteType);
+	}
+
+	/**
+	 * Short description of a scope, e.g., 'folder "Journal/**", tag #daily'
+	 */
+	static describe(scope?: RuleScope): string {
+		if (!scope || this.isEmpty(scope)) return 'all notes';
+
+		const parts: string[] = [];
+		if (scope.folder) parts.push(`folder "${scope.folder}"`);
+		if (scope.tag) parts.push(`tag #${TagSource.normalizeTag(scope.tag)}`);
+		if (scope.filePattern) parts.push(`file name /${scope.filePattern}/`);
+		if (scope.noteType) parts.push(`type "${scope.noteType}"`);
+		return parts.join(', ');
+	}
+
+	/**
+	 * Match a note's folder against a folder glob
+	 * - "*" matches within one folder name, "**" across folders, "?" one character
+	 * - The glob also covers subfolders: "Journal" matches "Journal/2026"
+	 */
+	private static matchesFolder(glob: string, folder: string): boolean {
+		// Subfolders are always covered, so a trailing "/**" adds nothing ("Journal/**" = "Journal")
+		const pattern = normalizePath(glob).replace(/\/+$/, '').replace(/(^|\/)\*\*$/, '');
+		if (pattern === '' || pattern === '/') return true;
+
+		const regex = new RegExp('^' + pattern
+			.split(/(\*\*|\*|\?)/)
+			.map(part => {
+				if (part === '**') return '.*';
+				if (part === '*') return '[^/]*';
+				if (part === '?') return '[^/]';
+				return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+			})
+			.join('') + '(/.*)?$');
+
+		return regex.test(folder);
+	}
+
+	/**
+	 * Values of the top-level `type` property ("type: log", "type: [log, daily]" or a block list)
+	 */
+	private static getTypesFromLines(lines: LineSource): string[] {
+		const bounds = FrontmatterParser.getFrontmatterBounds(lines);
+		if (!bounds) return [];
+
+		for (let i = bounds.start + 1; i < bounds.end; i++) {
+			const line = lines.getLine(i);
+			if (FrontmatterParser.getIndent(line) !== 0 || FrontmatterParser.extractFieldName(line) !== 'type') continue;
+
+			const value = line.substring(line.indexOf(':') + 1).trim();
+			if (value.startsWith('[')) {
+				return FrontmatterParser.parseFlowSequence(value);
+			}
+			if (value) {
+				return [FrontmatterParser.unquote(value)];
+			}
+
+			// Block list below the property
+			const items: string[] = [];
+			for (let j = i + 1; j < bounds.end; j++) {
+				const itemLine = lines.getLine(j);
+				if (!FrontmatterParser.isListItem(itemLine)) break;
+				items.push(FrontmatterParser.unquote(itemLine.substring(FrontmatterParser.getListItemValueStart(itemLine))));
+			}
+			return items;
+		}
+
+		return [];
+	}
+}
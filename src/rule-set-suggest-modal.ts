@@ -0,0 +1,41 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { FieldRule } from './types';
+
+const ALL_RULES = 'All enabled rules';
+
+/**
+ * Pick a rule set (or all enabled rules)
+ */
+export class RuleSetSuggestModal extends FuzzySuggestModal<string> {
+	private ruleSets: string[];
+	private onChoose: (ruleSet: string | null) => void;
+
+	constructor(app: App, ruleSets: string[], onChoose: (ruleSet: string | null) => void) {
+		super(app);
+		this.ruleSets = ruleSets;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Insert properties from...');
+	}
+
+	/**
+	 * Names of rule sets used by enabled rules
+	 */
+	static getRuleSetNames(rules: FieldRule[]): string[] {
+		const names = rules
+			.filter(rule => rule.enabled && rule.ruleSet)
+			.map(rule => rule.ruleSet!);
+		return Array.from(new Set(names)).sort((a, b) => a.localeCompare(b));
+	}
+
+	getItems(): string[] {
+		return [ALL_RULES, ...this.ruleSets];
+	}
+
+	getItemText(item: string): string {
+		return item;
+	}
+
+	onChooseItem(item: string): void {
+		this.onChoose(item === ALL_RULES ? null : item);
+	}
+}
@@ -0,0 +1,162 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import FrontmatterSuggesterPlugin from './main';
+import { FieldRule } from './types';
+import { JsonSchemaConverter, SchemaImportResult } from './json-schema';
+
+/**
+ * Import rules from a JSON Schema
+ * Shows what will be added or replaced, and what can't be imported, before applying
+ */
+export class SchemaImportModal extends Modal {
+	private plugin: FrontmatterSuggesterPlugin;
+	private schemaText: string = '';
+	private result: SchemaImportResult | null = null;
+	private parseError: string = '';
+
+	constructor(app: App, plugin: FrontmatterSuggesterPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.titleEl.setText('Import rules from JSON Schema');
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const schemaFiles = this.app.vault.getFiles()
+			.filter(file => file.extension === 'json')
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		if (schemaFiles.length > 0) {
+			new Setting(contentEl)
+				.setName('Load from vault')
+				.setDesc('Pick a .json file, or paste the schema below')
+				.addDropdown(dropdown => {
+					dropdown.addOption('', 'Choose a file...');
+					for (const file of schemaFiles) {
+						dropdown.addOption(file.path, file.path);
+					}
+					dropdown.onChange(async (path) => {
+						const file = this.app.vault.getAbstractFileByPath(path);
+						if (!(file instanceof TFile)) return;
+						this.schemaText = await this.app.vault.read(file);
+						this.parse();
+						this.onOpen();
+					});
+				});
+		}
+
+		const textArea = contentEl.createEl('textarea', { cls: 'frontmatter-schema-input' });
+		textArea.placeholder = '{ "type": "object", "properties": { ... } }';
+		textArea.rows = 10;
+		textArea.style.width = '100%';
+		textArea.style.fontFamily = 'var(--font-monospace)';
+		textArea.value = this.schemaText;
+		textArea.onchange = () => {
+			this.schemaText = textArea.value;
+			this.parse();
+			this.onOpen();
+		};
+
+		this.renderSummary(contentEl.createDiv({ cls: 'frontmatter-schema-summary' }));
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+		buttonContainer.style.display = 'flex';
+		buttonContainer.style.gap = '10px';
+		buttonContainer.style.marginTop = '20px';
+
+		const importButton = buttonContainer.createEl('button', { text: 'Import', cls: 'mod-cta' });
+		importButton.style.flex = '1';
+		importButton.disabled = !this.result || this.result.rules.length === 0;
+		importButton.onclick = async () => {
+			await this.applyImport();
+			this.close();
+		};
+
+		const cancelButton = buttonContainer.createEl('button', { text: 'Cancel' });
+		cancelButton.style.flex = '1';
+		cancelButton.onclick = () => this.close();
+	}
+
+	/**
+	 * Parse the schema text into rules
+	 */
+	private parse(): void {
+		this.result = null;
+		this.parseError = '';
+		if (this.schemaText.trim() === '') return;
+
+		try {
+			this.result = JsonSchemaConverter.importSchema(JSON.parse(this.schemaText));
+		} catch (error) {
+			this.parseError = `Invalid JSON: ${(error as Error).message}`;
+		}
+	}
+
+	/**
+	 * Summary: rules to add, rules to replace, and unsupported constructs
+	 */
+	private renderSummary(container: HTMLElement): void {
+		if (this.parseError) {
+			const errorDiv = container.createDiv({ text: this.parseError });
+			errorDiv.style.color = 'var(--text-error)';
+			return;
+		}
+		if (!this.result) return;
+
+		const existingPaths = new Set(this.plugin.settings.rules.map(rule => rule.fieldPath));
+		const added = this.result.rules.filter(rule => !existingPaths.has(rule.fieldPath));
+		const replaced = this.result.rules.filter(rule => existingPaths.has(rule.fieldPath));
+
+		this.renderList(container, `New rules (${added.length})`, added.map(rule => this.describeRule(rule)));
+		this.renderList(container, `Replaced rules (${replaced.length})`, replaced.map(rule => this.describeRule(rule)));
+
+		if (this.result.unsupported.length > 0) {
+			this.renderList(container, `Not imported (${this.result.unsupported.length})`, this.result.unsupported);
+		}
+	}
+
+	private renderList(container: HTMLElement, title: string, items: string[]): void {
+		if (items.length === 0) return;
+
+		container.createEl('h4', { text: title });
+		const list = container.createEl('ul');
+		for (const item of items) {
+			list.createEl('li', { text: item });
+		}
+	}
+
+	private describeRule(rule: FieldRule): string {
+		const path = rule.pathSegments.join(' > ');
+		const optionCount = rule.options?.length || 0;
+		return optionCount > 0
+			? `${path} (${optionCount} ${optionCount === 1 ? 'option' : 'options'})`
+			: `${path} (${rule.sourceType})`;
+	}
+
+	/**
+	 * Add the imported rules; rules with the same property path are replaced in place
+	 */
+	private async applyImport(): Promise<void> {
+		if (!this.result) return;
+
+		const rules = this.plugin.settings.rules;
+		for (const imported of this.result.rules) {
+			const index = rules.findIndex(rule => rule.fieldPath === imported.fieldPath);
+			if (index === -1) {
+				rules.push(imported);
+			} else {
+				// Keep the id so usage statistics stay with the rule
+				rules[index] = { ...imported, id: rules[index].id };
+			}
+		}
+
+		await this.plugin.saveSettings();
+		this.plugin.updateSuggester();
+		new Notice(`Imported ${this.result.rules.length} ${this.result.rules.length === 1 ? 'rule' : 'rules'}`);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,60 @@
+import { Setting } from 'obsidian';
+import { RuleScope } from './types';
+
+/**
+ * Render the condition fields of a scope (folder, tag, file name, note type)
+ * `onChange` receives the updated scope, or undefined once every field is empty
+ */
+export function renderScopeSettings(
+	container: HTMLElement,
+	scope: RuleScope | undefined,
+	onChange: (scope: RuleScope | undefined) => void
+): void {
+	const current: RuleScope = { ...scope };
+
+	const update = (key: keyof RuleScope, value: string) => {
+		const trimmed = value.trim();
+		if (trimmed) {
+			current[key] = trimmed;
+		} else {
+			delete current[key];
+		}
+		onChange(Object.keys(current).length > 0 ? { ...current } : undefined);
+	};
+
+	new Setting(container)
+		.setName('Folder')
+		.setDesc('Folder glob, including subfolders. "*" matches within a folder name, "**" across folders')
+		.addText(text => text
+			.setPlaceholder('Journal/**')
+			.setValue(current.folder || '')
+			.onChange(value => update('folder', value))
+		);
+
+	new Setting(container)
+		.setName('Tag')
+		.setDesc('Note must have this tag (nested tags count)')
+		.addText(text => text
+			.setPlaceholder('daily')
+			.setValue(current.tag || '')
+			.onChange(value => update('tag', value))
+		);
+
+	new Setting(container)
+		.setName('File name pattern')
+		.setDesc('Regular expression for the file name without extension')
+		.addText(text => text
+			.setPlaceholder('^\\d{4}-\\d{2}-\\d{2}$')
+			.setValue(current.filePattern || '')
+			.onChange(value => update('filePattern', value))
+		);
+
+	new Setting(container)
+		.setName('Note type')
+		.setDesc('Value of the frontmatter "type" property')
+		.addText(text => text
+			.setPlaceholder('log')
+			.setValue(current.noteType || '')
+			.onChange(value => update('noteType', value))
+		);
+}
@@ -1,7 +1,11 @@
 import { App, PluginSettingTab, Setting } from 'obsidian';
 import FrontmatterSuggesterPlugin from './main';
-import { FieldRule } from './types';
+import { FieldRule, generateRuleId } from './types';
 import { RuleEditorModal } from './rule-editor-modal';
+import { RuleGeneratorModal } from './rule-generator-modal';
+import { RuleScopeMatcher } from './rule-scope';
+import { renderScopeSettings } from './scope-settings';
+import { UnitConverter } from './unit-converter';
 
 export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 	plugin: FrontmatterSuggesterPlugin;
@@ -20,6 +24,12 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 		// Global Settings
 		this.renderGlobalSettings(containerEl);
 
+		// Custom units for conversion
+		this.renderCustomUnits(containerEl);
+
+		// Rule set scopes
+		this.renderRuleSets(containerEl);
+
 		// Field Rules
 		this.renderFieldRules(containerEl);
 	}
@@ -70,6 +80,17 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 				})
 			);
 
+		new Setting(container)
+			.setName('Pinyin / romaji matching')
+			.setDesc('Match Chinese options by pinyin initials (e.g., "atf" for 阿托伐他汀) and Japanese kana by romaji')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.globalSettings.transliterate || false)
+				.onChange(async (value) => {
+					this.plugin.settings.globalSettings.transliterate = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
 		new Setting(container)
 			.setName('Auto calculate indent')
 			.setDesc('Automatically calculate indent based on property depth')
@@ -80,6 +101,85 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				})
 			);
+
+		new Setting(container)
+			.setName('Rename keys in notes')
+			.setDesc('When an option key is renamed in the rule editor, offer to rename it in existing notes (with a preview)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.globalSettings.offerKeyRename !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.globalSettings.offerKeyRename = value;
+					await this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(container)
+			.setName('Warn on non-canonical units')
+			.setDesc('Underline numbers written in another unit than their option\'s canonical unit (e.g., "5 mi" when the canonical unit is km)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.globalSettings.warnNonCanonicalUnits !== false)
+				.onChange(async (value) => {
+					this.plugin.settings.globalSettings.warnNonCanonicalUnits = value;
+					await this.plugin.saveSettings();
+				})
+			);
+	}
+
+	private renderCustomUnits(container: HTMLElement): void {
+		container.createEl('h3', { text: 'Custom Units' });
+
+		const desc = container.createDiv({ cls: 'setting-item-description' });
+		desc.setText('Units for converting numbers, added to the built-in length, mass, volume and time units. '
+			+ 'One per line: "lap = 400 m" for a unit measured in another unit, or "serving" for a new kind of unit.');
+
+		const textArea = container.createEl('textarea', {
+			cls: 'frontmatter-units-textarea',
+			attr: { rows: '4', placeholder: 'lap = 400 m\nstone = 6.35 kg' }
+		});
+		textArea.style.width = '100%';
+		textArea.style.fontFamily = 'var(--font-monospace)';
+		textArea.value = UnitConverter.formatDefinitions(this.plugin.settings.customUnits || []);
+
+		const errorsEl = container.createDiv({ cls: 'setting-item-description' });
+		errorsEl.style.color = 'var(--text-error)';
+
+		textArea.addEventListener('change', async () => {
+			const { units, errors } = UnitConverter.parseDefinitions(textArea.value);
+			errorsEl.setText(errors.join('\n'));
+			this.plugin.settings.customUnits = units;
+			await this.plugin.saveSettings();
+			this.plugin.updateSuggester();
+		});
+	}
+
+	private renderRuleSets(container: HTMLElement): void {
+		const names = Array.from(new Set(
+			this.plugin.settings.rules.filter(rule => rule.ruleSet).map(rule => rule.ruleSet!)
+		)).sort((a, b) => a.localeCompare(b));
+		if (names.length === 0) return;
+
+		container.createEl('h3', { text: 'Rule Sets' });
+
+		const desc = container.createDiv({ cls: 'setting-item-description' });
+		desc.setText('Limit the rules of a set to some notes. Leave empty to use the set in all notes.');
+
+		for (const name of names) {
+			const scope = RuleScopeMatcher.getRuleSetScope(this.plugin.settings, name);
+			const heading = new Setting(container)
+				.setName(name)
+				.setDesc(`Applies to ${RuleScopeMatcher.describe(scope)}`)
+				.setHeading();
+
+			renderScopeSettings(container, scope, async (updated) => {
+				const ruleSets = (this.plugin.settings.ruleSets || []).filter(ruleSet => ruleSet.name !== name);
+				if (updated) {
+					ruleSets.push({ name, scope: updated });
+				}
+				this.plugin.settings.ruleSets = ruleSets;
+				heading.setDesc(`Applies to ${RuleScopeMatcher.describe(updated)}`);
+				await this.plugin.saveSettings();
+			});
+		}
 	}
 
 	private renderFieldRules(container: HTMLElement): void {
@@ -92,10 +192,10 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 				.setCta()
 				.onClick(async () => {
 					const newRule: FieldRule = {
-						id: this.generateId(),
+						id: generateRuleId(),
 						enabled: true,
-						parentField: '',
-						childField: '',
+						pathSegments: [''],
+						fieldPath: '',
 						sourceType: 'inline',
 						options: [],
 						displayFormat: {
@@ -123,6 +223,12 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 					);
 					modal.open();
 				})
+			)
+			.addButton(button => button
+				.setButtonText('Generate from vault...')
+				.onClick(() => {
+					new RuleGeneratorModal(this.app, this.plugin, () => this.display()).open();
+				})
 			);
 
 		// Render rules as simple list
@@ -155,10 +261,17 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 		const infoContainer = ruleItem.createDiv({ cls: 'frontmatter-rule-info' });
 		infoContainer.style.flex = '1';
 
-		const displayPath = rule.fieldPath || rule.parentField || '(not set)';
+		const displayPath = rule.fieldPath || '(not set)';
 		const titleDiv = infoContainer.createDiv();
 		titleDiv.createEl('strong', { text: `Rule ${index + 1}: ${displayPath}` });
 
+		if (!RuleScopeMatcher.isEmpty(rule.scope)) {
+			const scopeDiv = infoContainer.createDiv();
+			scopeDiv.setText(`Applies to ${RuleScopeMatcher.describe(rule.scope)}`);
+			scopeDiv.style.fontSize = '0.9em';
+			scopeDiv.style.color = 'var(--text-muted)';
+		}
+
 		if (rule.description) {
 			const descDiv = infoContainer.createDiv();
 			descDiv.setText(rule.description);
@@ -196,13 +309,10 @@ export class FrontmatterSuggesterSettingTab extends PluginSettingTab {
 		deleteButton.style.color = 'var(--text-error)';
 		deleteButton.onclick = async () => {
 			this.plugin.settings.rules.splice(index, 1);
+			this.plugin.optionUsage.reset(rule.id);
 			await this.plugin.saveSettings();
 			this.plugin.updateSuggester();
 			this.display();
 		};
 	}
-
-	private generateId(): string {
-		return 'rule-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
-	}
 }
@@ -5,20 +5,38 @@ import {
 	EditorSuggest,
 	EditorSuggestContext,
 	EditorSuggestTriggerInfo,
-	TFile
+	TFile,
+	moment
 } from 'obsidian';
-import { FieldRule, PluginSettings, SuggestionItem, OptionItem } from './types';
+import { FieldRule, PluginSettings, SuggestionItem, OptionItem, OutputShape, DurationFormat, TimeFormat } from './types';
 import { FrontmatterParser } from './frontmatter-parser';
+import { TagSource } from './tag-source';
+import { FileSource } from './file-source';
+import { DateParser, DEFAULT_DATE_FORMAT } from './date-parser';
+import { TimeParser } from './time-parser';
+import { OptionValidator } from './option-validator';
+import { ValueIndex } from './value-index';
+import { FieldPathMatcher, RuleMatch } from './field-path-matcher';
+import { FuzzyMatch, FuzzyMatcher } from './fuzzy-matcher';
+import { Transliterator } from './transliterator';
+import { OptionUsageTracker } from './option-usage';
+import { setTabStops } from './tab-stops';
+import { RuleScopeMatcher } from './rule-scope';
 
 export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 	private settings: PluginSettings;
-	private selectedItems: Set<string> = new Set();
+	private selectedItems: Map<string, SuggestionItem> = new Map();
 	private isMultiSelectMode: boolean = false;
 	private currentSuggestions: SuggestionItem[] = [];
+	private groupMembers: Map<string, SuggestionItem[]> = new Map();
+	private valueIndex: ValueIndex;
+	private optionUsage: OptionUsageTracker;
 
-	constructor(app: App, settings: PluginSettings) {
+	constructor(app: App, settings: PluginSettings, valueIndex: ValueIndex, optionUsage: OptionUsageTracker) {
 		super(app);
 		this.settings = settings;
+		this.valueIndex = valueIndex;
+		this.optionUsage = optionUsage;
 		this.setInstructions([
 			{ command: '↑↓', purpose: 'Navigate' },
 			{ command: 'Enter', purpose: 'Toggle/Insert' },
@@ -52,36 +70,21 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		const context = FrontmatterParser.getCurrentFieldPath(cursor, editor);
 		if (!context) return null;
 
-		// Find matching rule
-		const matchingRule = this.findMatchingRule(context.path);
-		if (!matchingRule || !matchingRule.enabled) {
+		// Find matching rule among the rules that apply to this note
+		const match = this.findMatchingRule(context.path, editor, file);
+		if (!match) {
 			return null;
 		}
 
 		// Get suggestions to check if there are any
-		const suggestions = this.generateSuggestions(matchingRule, cursor, editor);
+		const suggestions = this.generateSuggestions(match, cursor, editor);
 		if (suggestions.length === 0) {
 			return null;
 		}
 
-		// Calculate start position based on field type (only for Case 1 parent field level)
-		const currentLine = editor.getLine(cursor.line);
-		const fieldName = FrontmatterParser.extractFieldName(currentLine);
-		let startCh: number;
-
-		if (fieldName) {
-			// Case 1: Parent field line - position after colon and spaces
-			startCh = context.indent + fieldName.length + 1; // +1 for ":"
-			// Skip spaces after colon
-			while (startCh < currentLine.length && currentLine[startCh] === ' ') {
-				startCh++;
-			}
-		} else {
-			// Case 1b or Case 2: No field name on line - use cursor position
-			startCh = cursor.ch;
-		}
-
 		// Query should be the text from startCh to cursor position
+		const currentLine = editor.getLine(cursor.line);
+		const startCh = this.getQueryStartCh(cursor, editor);
 		const query = currentLine.substring(startCh, cursor.ch);
 
 		const triggerInfo = {
@@ -103,33 +106,41 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 			return [];
 		}
 
-		const matchingRule = this.findMatchingRule(fieldContext.path);
-		if (!matchingRule || !matchingRule.enabled) {
+		const match = this.findMatchingRule(fieldContext.path, context.editor, context.file);
+		if (!match) {
 			return [];
 		}
 
+		const matchingRule = match.rule;
+		const ruleDepth = this.calculatePathDepth(match.path);
+		const pathDepth = this.calculatePathDepth(fieldContext.path);
+
 		// Set multi-select mode based on rule configuration
-		this.isMultiSelectMode = matchingRule.multiSelect || false;
+		// Date values, single-value rules and option values (child lines) are always a single value
+		this.isMultiSelectMode = (matchingRule.multiSelect || false)
+			&& matchingRule.sourceType !== 'date'
+			&& this.getOutputShape(matchingRule) !== 'scalar'
+			&& pathDepth === ruleDepth;
 
 		// Reset selected items when suggestions are generated (new suggestion session)
 		if (!this.context || this.context !== context) {
 			this.selectedItems.clear();
 		}
 
-		let suggestions = this.generateSuggestions(matchingRule, cursor, context.editor);
+		let suggestions = this.generateSuggestions(match, cursor, context.editor);
 		if (suggestions.length === 0) {
 			return [];
 		}
 
 		// Filter by query only for Case 1 (parent field level, not child item attributes)
-		const ruleFieldPath = matchingRule.fieldPath || matchingRule.parentField;
-		const ruleDepth = this.calculatePathDepth(ruleFieldPath);
-		const pathDepth = this.calculatePathDepth(fieldContext.path);
 
-		if (pathDepth === ruleDepth && context.query && context.query.trim() !== '') {
+		// Date suggestions are already resolved from the query
+		if (pathDepth === ruleDepth && matchingRule.sourceType !== 'date' && context.query && context.query.trim() !== '') {
 			suggestions = this.filterSuggestions(suggestions, context.query);
 		}
 
+		suggestions = this.groupSuggestions(suggestions);
+
 		// Limit to max suggestions
 		const result = suggestions.slice(0, this.settings.globalSettings.maxSuggestions);
 		this.currentSuggestions = result;
@@ -159,6 +170,21 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 	 * Render each suggestion
 	 */
 	renderSuggestion(suggestion: SuggestionItem, el: HTMLElement): void {
+		if (suggestion.groupSelect) {
+			this.renderGroupSelect(suggestion, el);
+			return;
+		}
+
+		// Group header above the first option of each group
+		// (multi-select mode shows group entries instead)
+		const group = suggestion.option.group;
+		if (group && !this.isMultiSelectMode) {
+			const index = this.currentSuggestions.indexOf(suggestion);
+			if (index <= 0 || this.currentSuggestions[index - 1].option.group !== group) {
+				el.createDiv({ cls: 'frontmatter-suggestion-group', text: this.formatGroup(group) });
+			}
+		}
+
 		el.createDiv({ cls: 'frontmatter-suggestion-item' }, (div) => {
 			// Checkbox indicator for multi-select mode
 			if (this.isMultiSelectMode) {
@@ -172,8 +198,9 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 				div.createSpan({ cls: 'frontmatter-suggestion-icon', text: suggestion.option.icon });
 			}
 
-			// Key
-			div.createSpan({ cls: 'frontmatter-suggestion-key', text: suggestion.option.key });
+			// Key, with matched characters highlighted
+			const keyEl = div.createSpan({ cls: 'frontmatter-suggestion-key' });
+			this.renderHighlightedText(keyEl, suggestion.option.key, suggestion.matchIndices || []);
 
 			// Description (if available)
 			if (suggestion.option.description && suggestion.rule.displayFormat?.showDescription !== false) {
@@ -190,6 +217,57 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		});
 	}
 
+	/**
+	 * Render a multi-select entry for a whole group
+	 * Checkbox shows whether all, some or none of the group is selected
+	 */
+	private renderGroupSelect(suggestion: SuggestionItem, el: HTMLElement): void {
+		const members = this.groupMembers.get(suggestion.groupSelect!) || [];
+		const selectedCount = members.filter(member => this.selectedItems.has(member.option.key)).length;
+		const checkbox = selectedCount === 0 ? '[ ] ' : selectedCount === members.length ? '[✓] ' : '[-] ';
+
+		el.createDiv({ cls: 'frontmatter-suggestion-item frontmatter-suggestion-group-select' }, (div) => {
+			div.createSpan({ cls: 'frontmatter-suggestion-checkbox', text: checkbox });
+			div.createSpan({ cls: 'frontmatter-suggestion-key', text: this.formatGroup(suggestion.groupSelect!) });
+			div.createSpan({
+				cls: 'frontmatter-suggestion-desc',
+				text: ` - select all ${members.length} ${members.length === 1 ? 'option' : 'options'}`
+			});
+		});
+	}
+
+	/**
+	 * Display a group path, e.g., "Strength/Upper body" -> "Strength › Upper body"
+	 */
+	private formatGroup(group: string): string {
+		return group.split('/').join(' › ');
+	}
+
+	/**
+	 * Render text with matched characters wrapped in highlight spans
+	 */
+	private renderHighlightedText(el: HTMLElement, text: string, indices: number[]): void {
+		if (indices.length === 0) {
+			el.setText(text);
+			return;
+		}
+
+		const matched = new Set(indices);
+		let start = 0;
+		for (let i = 1; i <= text.length; i++) {
+			// Flush each run of matched or unmatched characters
+			if (i === text.length || matched.has(i) !== matched.has(start)) {
+				const part = text.substring(start, i);
+				if (matched.has(start)) {
+					el.createSpan({ cls: 'frontmatter-suggestion-match', text: part });
+				} else {
+					el.appendText(part);
+				}
+				start = i;
+			}
+		}
+	}
+
 	/**
 	 * Handle suggestion selection
 	 * In multi-select mode: toggles selection
@@ -203,20 +281,53 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		const fieldContext = FrontmatterParser.getCurrentFieldPath(cursor, editor);
 		if (!fieldContext) return;
 
-		if (this.isMultiSelectMode) {
+		if (suggestion.groupSelect) {
+			// Toggle the whole group: select all, or clear if all are selected
+			const members = this.groupMembers.get(suggestion.groupSelect) || [];
+			const allSelected = members.every(member => this.selectedItems.has(member.option.key));
+			for (const member of members) {
+				if (allSelected) {
+					this.selectedItems.delete(member.option.key);
+				} else {
+					this.selectedItems.set(member.option.key, member);
+				}
+			}
+			this.updateSuggestionsDisplay();
+		} else if (suggestion.valueInsert) {
+			// Values (dates, scalars) go on the current line
+			this.handleValueSelection(suggestion, editor, cursor);
+			this.recordUsage([suggestion]);
+		} else if (this.isMultiSelectMode) {
 			// Multi-select mode: Enter toggles selection
 			// Toggle: add/remove from selection
 			if (this.selectedItems.has(suggestion.option.key)) {
 				this.selectedItems.delete(suggestion.option.key);
 			} else {
-				this.selectedItems.add(suggestion.option.key);
+				this.selectedItems.set(suggestion.option.key, suggestion);
 			}
 
 			// Force UI update by re-rendering all suggestions
 			this.updateSuggestionsDisplay();
+		} else if (this.getOutputShape(suggestion.rule) === 'flow-list') {
+			// Flow sequence: add to the list on the field line
+			this.handleFlowListSelection([suggestion], editor, cursor);
+			this.recordUsage([suggestion]);
 		} else {
 			// Single-select mode: insert immediately and close
 			this.handleParentFieldSelection(suggestion, editor, cursor, fieldContext);
+			this.recordUsage([suggestion]);
+		}
+	}
+
+	/**
+	 * Remember picked inline options for usage-based ordering
+	 * Values picked on option lines (e.g., "10 km") are not options and are skipped
+	 */
+	private recordUsage(items: SuggestionItem[]): void {
+		for (const item of items) {
+			const rule = item.rule;
+			if (rule.sourceType !== 'inline' || !rule.options?.some(opt => opt.key === item.option.key)) continue;
+			this.optionUsage.record(rule, [item.option.key]);
 		}
 	}
 
@@ -250,51 +361,44 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 	): void {
 		const currentLine = editor.getLine(cursor.line);
 		const fieldName = FrontmatterParser.extractFieldName(currentLine);
+		const selectedArray = Array.from(this.selectedItems.values());
 
-		if (fieldName) {
+		if (this.getOutputShape(selectedArray[0].rule) === 'flow-list') {
+			this.handleFlowListSelection(selectedArray, editor, cursor);
+		} else if (fieldName) {
 			// Cursor is on parent field line
-			const itemIndent = fieldContext.indent + 2;
+			const itemIndent = this.getChildIndent(editor, cursor.line, fieldContext.indent);
 			const indentStr = ' '.repeat(itemIndent);
 
 			// Build text for all selected items
-			const selectedArray = Array.from(this.selectedItems);
-			const insertLines = selectedArray.map(key => `\n${indentStr}${key}: `).join('');
+			const insertLines = selectedArray.map(item => `\n${indentStr}${item.insertText}`).join('');
 
-			// Insert at end of current line
-			const insertPos = { line: cursor.line, ch: currentLine.length };
-			editor.replaceRange(insertLines, insertPos);
+			// Replace typed query and insert after current line
+			const insertPos = this.getQueryStart(cursor);
+			editor.replaceRange(insertLines, insertPos, { line: cursor.line, ch: currentLine.length });
 
-			// Set cursor to end of last inserted item
-			const newCursorPos = {
-				line: cursor.line + selectedArray.length,
-				ch: itemIndent + selectedArray[selectedArray.length - 1].length + 2
-			};
-			editor.setCursor(newCursorPos);
+			this.placeCursorAfterItems(editor, selectedArray, cursor.line + 1, itemIndent);
 		} else {
 			// Cursor is on an empty line
 			const itemIndent = cursor.line > 0 ? FrontmatterParser.getIndent(currentLine) : fieldContext.indent + 2;
 			const indentStr = ' '.repeat(itemIndent);
 
-			const selectedArray = Array.from(this.selectedItems);
-			const insertLines = selectedArray.map((key, index) => {
+			const insertLines = selectedArray.map((item, index) => {
 				return index === 0
-					? `${indentStr}${key}: `
-					: `\n${indentStr}${key}: `;
+					? `${indentStr}${item.insertText}`
+					: `\n${indentStr}${item.insertText}`;
 			}).join('');
 
-			// Replace from current position
-			const from = cursor;
+			// Replace the whole line, including any typed text or "- "
+			const from = { line: cursor.line, ch: 0 };
 			const to = { line: cursor.line, ch: currentLine.length };
 			editor.replaceRange(insertLines, from, to);
 
-			// Set cursor to end of last inserted item
-			const newCursorPos = {
-				line: cursor.line + selectedArray.length - 1,
-				ch: itemIndent + selectedArray[selectedArray.length - 1].length + 2
-			};
-			editor.setCursor(newCursorPos);
+			this.placeCursorAfterItems(editor, selectedArray, cursor.line, itemIndent);
 		}
 
+		this.recordUsage(selectedArray);
+
 		// Clear selection after insertion
 		this.selectedItems.clear();
 	}
@@ -316,69 +420,255 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		if (fieldName) {
 			// Cursor is on parent field line like "Drugs:"
 			// Insert new line after this line with the sub-item
-			const itemIndent = fieldContext.indent + 2;  // Sub-items are indented 2 more spaces
+			const itemIndent = this.getChildIndent(editor, cursor.line, fieldContext.indent);
 			const indentStr = ' '.repeat(itemIndent);
-			const newLineText = `\n${indentStr}${suggestion.option.key}: `;
+			const newLineText = `\n${indentStr}${suggestion.insertText}`;
 
-			// Insert at end of current line
-			const insertPos = { line: cursor.line, ch: currentLine.length };
-			editor.replaceRange(newLineText, insertPos);
+			// Replace typed query and insert after current line
+			const insertPos = this.getQueryStart(cursor);
+			editor.replaceRange(newLineText, insertPos, { line: cursor.line, ch: currentLine.length });
 
 			// Set cursor position at the end of inserted text
 			const newCursorPos = {
 				line: cursor.line + 1,
-				ch: itemIndent + suggestion.option.key.length + 2  // +2 for ": "
+				ch: itemIndent + suggestion.insertText.length
 			};
-			editor.setCursor(newCursorPos);
+			this.placeCursor(editor, newCursorPos, suggestion);
 		} else {
 			// Cursor is on an empty sub-item line, insert the medication name
 			const itemIndent = cursor.line > 0 ? FrontmatterParser.getIndent(currentLine) : fieldContext.indent + 2;
 			const indentStr = ' '.repeat(itemIndent);
-			const insertText = `${indentStr}${suggestion.option.key}: `;
+			const insertText = `${indentStr}${suggestion.insertText}`;
 
-			// Replace from current cursor position to end of line
-			const from = cursor;
+			// Replace the whole line, including any typed text or "- "
+			const from = { line: cursor.line, ch: 0 };
 			const to = { line: cursor.line, ch: currentLine.length };
 			editor.replaceRange(insertText, from, to);
 
 			// Set cursor position after inserted text
 			const newCursorPos = {
 				line: cursor.line,
-				ch: from.ch + insertText.length
+				ch: insertText.length
 			};
-			editor.setCursor(newCursorPos);
+			this.placeCursor(editor, newCursorPos, suggestion);
 		}
 	}
 
+	/**
+	 * Put the cursor at the end of an inserted item
+	 * A default value is selected instead, so it can be overtyped
+	 * With a unit placeholder, the value and the unit become tab stops
+	 */
+	private placeCursor(editor: Editor, end: EditorPosition, suggestion: SuggestionItem): void {
+		if (suggestion.tabStop && suggestion.unitPlaceholder) {
+			setTabStops(editor, this.getTabStops(suggestion, end));
+		} else if (suggestion.defaultValue) {
+			editor.setSelection({ line: end.line, ch: end.ch - suggestion.defaultValue.length }, end);
+		} else {
+			editor.setCursor(end);
+		}
+	}
 
 	/**
-	 * Calculate depth of a field path
-	 * Example: "Habits Yestoday.Drugs" = 2 levels
+	 * Place the cursor after inserting items on consecutive lines
+	 * For "key: value" entries, each value (and unit) becomes a tab stop (Tab / Shift-Tab to move, Esc to finish)
+	 * Otherwise the cursor goes to the end of the last item
 	 */
-	private calculatePathDepth(fieldPath: string): number {
-		return fieldPath.split('.').filter(p => p.length > 0).length;
+	private placeCursorAfterItems(
+		editor: Editor,
+		items: SuggestionItem[],
+		firstLine: number,
+		itemIndent: number
+	): void {
+		const stops: { from: EditorPosition; to: EditorPosition }[] = [];
+		items.forEach((item, index) => {
+			if (!item.tabStop) return;
+			stops.push(...this.getTabStops(item, { line: firstLine + index, ch: itemIndent + item.insertText.length }));
+		});
+
+		if (stops.length > 0) {
+			setTabStops(editor, stops);
+			return;
+		}
+
+		const last = items.length - 1;
+		editor.setCursor({ line: firstLine + last, ch: itemIndent + items[last].insertText.length });
 	}
 
 	/**
-	 * Find matching rule for a field path
+	 * Tab stops of an inserted "key: value" entry ending at end
+	 * Example: "running: | km|" -> the (empty) value, then the unit
+	 */
+	private getTabStops(item: SuggestionItem, end: EditorPosition): { from: EditorPosition; to: EditorPosition }[] {
+		const unit = item.unitPlaceholder || '';
+		const valueEnd = { line: end.line, ch: end.ch - (unit ? unit.length + 1 : 0) };
+		const stops = [{
+			from: { line: end.line, ch: valueEnd.ch - (item.defaultValue || '').length },
+			to: valueEnd
+		}];
+		if (unit) {
+			stops.push({ from: { line: end.line, ch: end.ch - unit.length }, to: end });
+		}
+		return stops;
+	}
+
+	/**
+	 * Unit to insert after the value of a number option: the canonical unit, or the first unit
+	 * None when the option has no units or the default value already has one
 	 */
-	private findMatchingRule(fieldPath: string): FieldRule | null {
-		// Exact match first
-		for (const rule of this.settings.rules) {
-			if (rule.fieldPath === fieldPath) {
-				return rule;
+	private getUnitPlaceholder(option: OptionItem, defaultValue: string): string {
+		const units = option.units || [];
+		if (units.length === 0 || (defaultValue && !/^[-+]?\d*\.?\d+$/.test(defaultValue.trim()))) return '';
+		return option.canonicalUnit || units[0];
+	}
+
+	/**
+	 * Add items to a flow sequence on the field line
+	 * Example: "tags: [work, pe" + "personal" -> "tags: [work, personal]"
+	 * A missing or scalar value is turned into a sequence
+	 */
+	private handleFlowListSelection(
+		items: SuggestionItem[],
+		editor: Editor,
+		cursor: EditorPosition
+	): void {
+		const currentLine = editor.getLine(cursor.line);
+		const fieldName = FrontmatterParser.extractFieldName(currentLine);
+		if (!fieldName || items.length === 0) return;
+
+		const valueStart = FrontmatterParser.getIndent(currentLine) + fieldName.length + 1; // +1 for ":"
+		const queryStart = Math.max(valueStart, this.getQueryStart(cursor).ch);
+
+		// Current value without the typed query
+		const value = (currentLine.substring(valueStart, queryStart) + currentLine.substring(cursor.ch)).trim();
+
+		let existing = value;
+		let trailing = '';
+		if (value.startsWith('[')) {
+			const closeIndex = value.lastIndexOf(']');
+			existing = closeIndex === -1 ? value.substring(1) : value.substring(1, closeIndex);
+			trailing = closeIndex === -1 ? '' : value.substring(closeIndex + 1);
+			existing = existing.trim().replace(/,$/, '').trim();
+		}
+
+		const inner = [existing, ...items.map(item => item.insertText)]
+			.filter(item => item !== '')
+			.join(', ');
+		const newValue = ` [${inner}]`;
+
+		editor.replaceRange(
+			newValue + trailing,
+			{ line: cursor.line, ch: valueStart },
+			{ line: cursor.line, ch: currentLine.length }
+		);
+
+		// Keep the cursor inside the brackets, ready for the next item
+		editor.setCursor({ line: cursor.line, ch: valueStart + newValue.length - 1 });
+	}
+
+	/**
+	 * Indent for new child lines below a field line
+	 * Follows an existing block sequence, which may sit at the field's own indent
+	 */
+	private getChildIndent(editor: Editor, fieldLine: number, fieldIndent: number): number {
+		if (fieldLine + 1 < editor.lineCount()) {
+			const nextLine = editor.getLine(fieldLine + 1);
+			if (FrontmatterParser.isListItem(nextLine) && FrontmatterParser.getIndent(nextLine) >= fieldIndent) {
+				return FrontmatterParser.getIndent(nextLine);
 			}
 		}
+		return fieldIndent + 2;
+	}
+
+	/**
+	 * Insert a value on the current line, replacing the typed query
+	 * Example: "due: tod" -> "due: 2026-10-19", "  - tod" -> "  - 2026-10-19"
+	 */
+	private handleValueSelection(
+		suggestion: SuggestionItem,
+		editor: Editor,
+		cursor: EditorPosition
+	): void {
+		const currentLine = editor.getLine(cursor.line);
+		const from = this.getQueryStart(cursor);
+		const to = { line: cursor.line, ch: currentLine.length };
+
+		// Keep a space between the colon and the value
+		const needsSpace = from.ch > 0 && currentLine[from.ch - 1] === ':';
+		const insertText = (needsSpace ? ' ' : '') + suggestion.insertText;
+
+		editor.replaceRange(insertText, from, to);
+		editor.setCursor({ line: cursor.line, ch: from.ch + insertText.length });
+	}
+
+	/**
+	 * Calculate where the typed query starts on the current line
+	 * - Field line ("due: tod"): after the colon and spaces
+	 * - List item line ("  - tod"): after the dash and spaces
+	 * - Otherwise: at the cursor
+	 */
+	private getQueryStartCh(cursor: EditorPosition, editor: Editor): number {
+		const currentLine = editor.getLine(cursor.line);
+
+		const listValueStart = FrontmatterParser.getListItemValueStart(currentLine);
+		if (listValueStart !== -1) {
+			return Math.min(listValueStart, cursor.ch);
+		}
+
+		const fieldName = FrontmatterParser.extractFieldName(currentLine);
+		if (fieldName) {
+			// Case 1: Parent field line - position after colon and spaces
+			let startCh = FrontmatterParser.getIndent(currentLine) + fieldName.length + 1; // +1 for ":"
+			// Skip spaces after colon
+			while (startCh < currentLine.length && currentLine[startCh] === ' ') {
+				startCh++;
+			}
 
-		// Check if fieldPath is under a parent field
-		// e.g., "Habits Yestoday.Exercises.hiking" should match "Habits Yestoday.Exercises"
-		for (const rule of this.settings.rules) {
-			if (fieldPath.startsWith(rule.fieldPath + '.')) {
-				return rule;
+			// Flow sequence ("tags: [work, pe"): the query is the item being typed
+			if (currentLine[startCh] === '[' && cursor.ch > startCh) {
+				const beforeCursor = currentLine.substring(0, cursor.ch);
+				const separator = Math.max(beforeCursor.lastIndexOf('['), beforeCursor.lastIndexOf(','));
+				if (beforeCursor.lastIndexOf(']') > separator) {
+					return cursor.ch;
+				}
+				startCh = separator + 1;
+				while (startCh < cursor.ch && currentLine[startCh] === ' ') {
+					startCh++;
+				}
 			}
+			return startCh;
 		}
 
-		return null;
+		// Case 1b or Case 2: No field name on line - use cursor position
+		return cursor.ch;
+	}
+
+	/**
+	 * Get the start of the typed query on the current line
+	 * Falls back to the cursor when no suggestion context is active
+	 */
+	private getQueryStart(cursor: EditorPosition): EditorPosition {
+		const start = this.context?.start;
+		return start && start.line === cursor.line ? start : cursor;
+	}
+
+	/**
+	 * Calculate depth of a field path
+	 * Example: "Habits Yestoday.Drugs" = 2 levels
+	 */
+	private calculatePathDepth(fieldPath: string): number {
+		return fieldPath.split('.').filter(p => p.length > 0).length;
+	}
+
+	/**
+	 * Find matching rule for a field path
+	 * e.g., "Habits Yestoday.Exercises.hiking" matches "Habits Yestoday.Exercises" or "*.Exercises"
+	 * Rules scoped to other folders, tags, file names or note types are skipped
+	 */
+	private findMatchingRule(fieldPath: string, editor: Editor, file: TFile | null): RuleMatch | null {
+		const scopeContext = file ? RuleScopeMatcher.getContext(this.app, file, editor) : null;
+		const rules = RuleScopeMatcher.getApplicableRules(this.settings, scopeContext);
+		return FieldPathMatcher.findMatchingRule(rules, fieldPath);
 	}
 
 	/**
@@ -386,7 +676,7 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 	 * Only generates parent field level suggestions
 	 */
 	private generateSuggestions(
-		rule: FieldRule,
+		match: RuleMatch,
 		cursor: EditorPosition,
 		editor: Editor
 	): SuggestionItem[] {
@@ -394,15 +684,18 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		const fieldContext = FrontmatterParser.getCurrentFieldPath(cursor, editor);
 		if (!fieldContext) return [];
 
-		const ruleFieldPath = rule.fieldPath || rule.parentField;
-
 		// Calculate depth to determine if we're on parent field or child item line
-		const ruleDepth = this.calculatePathDepth(ruleFieldPath);
+		const ruleDepth = this.calculatePathDepth(match.path);
 		const pathDepth = this.calculatePathDepth(fieldContext.path);
 
-		// Only show suggestions at parent field level
+		// Parent field level: suggest options to add
 		if (pathDepth === ruleDepth) {
-			return this.generateParentFieldSuggestions(rule, cursor, editor);
+			return this.generateParentFieldSuggestions(match.rule, match.path, cursor, editor);
+		}
+
+		// Child item line: suggest values for the option
+		if (pathDepth === ruleDepth + 1) {
+			return this.generateValueSuggestions(match.rule, fieldContext.path, cursor, editor);
 		}
 
 		return [];
@@ -415,13 +708,20 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 	 */
 	private generateParentFieldSuggestions(
 		rule: FieldRule,
-		_cursor: EditorPosition,
+		ruleFieldPath: string,
+		cursor: EditorPosition,
 		editor: Editor
 	): SuggestionItem[] {
 		const suggestions: SuggestionItem[] = [];
-		const ruleFieldPath = rule.fieldPath || rule.parentField;
+		const shape = this.getOutputShape(rule);
 
-		// Get already added items to avoid duplicates
+		// Flow sequences and single values are edited on the field line itself
+		if ((shape === 'flow-list' || shape === 'scalar')
+			&& !FrontmatterParser.extractFieldName(editor.getLine(cursor.line))) {
+			return [];
+		}
+
+		// Get already added items (keys or list items) to avoid duplicates
 		const existingItems = FrontmatterParser.getExistingSubItemsByPath(
 			ruleFieldPath,
 			editor
@@ -431,35 +731,120 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		switch (rule.sourceType) {
 			case 'inline':
 				if (rule.options) {
-					for (const option of rule.options) {
+					for (const option of this.optionUsage.sortOptions(rule, rule.options)) {
 						// Skip if already added
 						if (existingItems.includes(option.key)) continue;
 
+						// Defaults only apply to "key: value" entries
+						const defaultValue = shape === 'mapping' && option.defaultValue
+							? this.resolveDefaultValue(option.defaultValue, `${ruleFieldPath}.${option.key}`)
+							: '';
+
+						const unitPlaceholder = shape === 'mapping' ? this.getUnitPlaceholder(option, defaultValue) : '';
+
 						suggestions.push({
 							rule,
 							option,
 							displayText: this.buildDisplayText(option, rule),
-							insertText: this.buildInsertText(option)
+							insertText: shape === 'mapping'
+								? this.buildInsertText(option) + defaultValue + (unitPlaceholder ? ` ${unitPlaceholder}` : '')
+								: this.buildShapedInsertText(option.key, shape),
+							valueInsert: shape === 'scalar',
+							defaultValue: defaultValue || undefined,
+							tabStop: shape === 'mapping',
+							unitPlaceholder: unitPlaceholder || undefined
 						});
 					}
 				}
 				break;
 
 			case 'vault-tags':
-				// TODO: Implement vault tags
+				for (const usage of TagSource.getTags(this.app, rule.tagsConfig)) {
+					const insertValue = TagSource.formatTag(usage.tag, rule.tagsConfig);
+					// Skip if already added
+					if (existingItems.includes(FrontmatterParser.unquote(insertValue))) continue;
+
+					const option: OptionItem = {
+						key: usage.tag,
+						description: `${usage.count} ${usage.count === 1 ? 'note' : 'notes'}`
+					};
+					suggestions.push({
+						rule,
+						option,
+						displayText: this.buildDisplayText(option, rule),
+						insertText: this.buildShapedInsertText(insertValue, shape),
+						valueInsert: shape === 'scalar'
+					});
+				}
 				break;
 
-			case 'vault-files':
-				// TODO: Implement vault files
+			case 'vault-files': {
+				const sourcePath = this.app.workspace.getActiveFile()?.path || '';
+				for (const file of FileSource.getFiles(this.app, rule.filesConfig)) {
+					const insertValue = FileSource.formatFile(this.app, file, sourcePath, rule.filesConfig);
+					// Skip if already added
+					if (existingItems.includes(FrontmatterParser.unquote(insertValue))) continue;
+
+					const option: OptionItem = {
+						key: FileSource.getDisplayName(file),
+						description: FileSource.getFolderDescription(file)
+					};
+					suggestions.push({
+						rule,
+						option,
+						displayText: this.buildDisplayText(option, rule),
+						insertText: this.buildShapedInsertText(insertValue, shape),
+						valueInsert: shape === 'scalar'
+					});
+				}
 				break;
+			}
 
-			case 'date':
-				// TODO: Implement date picker
+			case 'date': {
+				const format = rule.dateConfig?.format || DEFAULT_DATE_FORMAT;
+				const currentLine = editor.getLine(cursor.line);
+				const query = currentLine.substring(this.getQueryStartCh(cursor, editor), cursor.ch);
+
+				for (const candidate of DateParser.parse(query, format)) {
+					const value = candidate.date.format(format);
+					// Skip the value that is already typed
+					if (value === query.trim()) continue;
+
+					const option: OptionItem = { key: value, description: candidate.label };
+					suggestions.push({
+						rule,
+						option,
+						displayText: this.buildDisplayText(option, rule),
+						insertText: FrontmatterParser.quote(value, false),
+						valueInsert: true
+					});
+				}
 				break;
+			}
 
-			case 'recent-values':
-				// TODO: Implement recent values
+			case 'recent-values': {
+				const currentFilePath = this.app.workspace.getActiveFile()?.path;
+				for (const entry of this.valueIndex.getValues(ruleFieldPath, currentFilePath)) {
+					// Skip if already added
+					if (entry.kind !== 'scalar' && existingItems.includes(entry.value)) continue;
+
+					const option: OptionItem = {
+						key: entry.value,
+						description: `${entry.count}× · ${moment(entry.lastUsed).fromNow()}`
+					};
+					// Values keep the shape they were used with, unless the rule sets one
+					const entryShape: OutputShape = rule.outputShape
+						|| (entry.kind === 'item' ? 'block-list' : entry.kind === 'scalar' ? 'scalar' : 'mapping');
+					suggestions.push({
+						rule,
+						option,
+						displayText: this.buildDisplayText(option, rule),
+						insertText: this.buildShapedInsertText(entry.value, entryShape),
+						valueInsert: entryShape === 'scalar'
+					});
+				}
 				break;
+			}
 		}
 
 		return suggestions;
@@ -467,20 +852,250 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 
 
 	/**
-	 * Filter suggestions by query
+	 * Case 2: Generate value suggestions on a child item line
+	 * Example: Show "happy", "sad" when cursor is after "mood: "
+	 * Uses the option's type: enum values, true/false, number with unit, duration or time
+	 */
+	private generateValueSuggestions(
+		rule: FieldRule,
+		fieldPath: string,
+		cursor: EditorPosition,
+		editor: Editor
+	): SuggestionItem[] {
+		const currentLine = editor.getLine(cursor.line);
+		const fieldName = FrontmatterParser.extractFieldName(currentLine);
+		if (!fieldName || !rule.options) return [];
+
+		// Cursor must be after the colon
+		const startCh = this.getQueryStartCh(cursor, editor);
+		if (cursor.ch < startCh) return [];
+
+		const optionKey = fieldPath.split('.').pop();
+		const option = rule.options.find(opt => opt.key === optionKey);
+		if (!option || !option.type) return [];
+
+		const query = currentLine.substring(startCh, cursor.ch).trim();
+		const values = this.getOptionValues(option, query);
+
+		// Ignore spaces so "5km" matches "5 km"
+		const caseSensitive = this.settings.globalSettings.caseSensitive;
+		const normalize = (text: string) => (caseSensitive ? text : text.toLowerCase()).replace(/\s+/g, '');
+		const normalizedQuery = normalize(query);
+
+		// Numbers, durations and times are computed from the query ("7.3" -> "7.5 h", "90" -> "1h30m"),
+		// so they needn't contain it
+		const computed = option.type === 'number' || option.type === 'duration' || option.type === 'time';
+
+		return values
+			.filter(value => {
+				const normalizedValue = normalize(value);
+				// Skip the value that is already typed
+				return normalizedValue !== normalizedQuery && (computed || normalizedValue.includes(normalizedQuery));
+			})
+			.map(value => {
+				const valueOption: OptionItem = { key: value, description: option.type };
+				return {
+					rule,
+					option: valueOption,
+					displayText: value,
+					insertText: value,
+					valueInsert: true
+				};
+			});
+	}
+
+	/**
+	 * Get candidate values for an option based on its type
+	 * For numbers, the typed number is combined with each unit ("5" -> "5 km", "5 miles")
+	 */
+	private getOptionValues(option: OptionItem, query: string): string[] {
+		switch (option.type) {
+			case 'enum':
+				return option.enumValues || [];
+			case 'boolean':
+				return ['true', 'false'];
+			case 'number':
+				return this.getNumberValues(option, query);
+			case 'duration':
+				return this.getDurationValues(option, query);
+			case 'time':
+				return this.getTimeValues(option, query);
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Numbers for a query, combined with each unit whose name starts like the typed unit
+	 * The typed number is fitted to the option's range, step, integer and precision ("7.3" with step 0.5 -> "7.5", "7")
+	 */
+	private getNumberValues(option: OptionItem, query: string): string[] {
+		const units = option.units || [];
+		const hasConstraints = option.min !== undefined || option.max !== undefined
+			|| !!option.step || !!option.integer || option.precision !== undefined;
+		if (units.length === 0 && !hasConstraints) return [];
+
+		const match = query.match(/^([-+]?\d+\.?\d*)\s*(.*)$/);
+		const typed = match ? parseFloat(match[1]) : 10;
+		const valid = OptionValidator.getValidNumbers(typed, option);
+		// Keep the number as typed when it's already valid
+		const numbers = match && valid.length === 1 && valid[0] === typed ? [match[1]] : valid.map(String);
+		if (units.length === 0) return numbers;
+
+		// Canonical unit first
+		const typedUnit = (match ? match[2] : query).trim().toLowerCase();
+		const orderedUnits = option.canonicalUnit
+			? [option.canonicalUnit, ...units.filter(unit => unit !== option.canonicalUnit)]
+			: units;
+		const matchingUnits = orderedUnits.filter(unit => unit.toLowerCase().startsWith(typedUnit));
+
+		const values: string[] = [];
+		for (const num of numbers) {
+			values.push(...matchingUnits.map(unit => `${num} ${unit}`));
+		}
+		return values;
+	}
+
+	/**
+	 * Durations for a query, in the option's format and within its bounds
+	 * "1h30" -> "1h30m"; a plain number is read as minutes and as hours ("45" -> "45m", "45h")
+	 */
+	private getDurationValues(option: OptionItem, query: string): string[] {
+		let seconds: number[];
+		if (/^\d+(?:\.\d+)?$/.test(query)) {
+			seconds = [parseFloat(query) * 60, parseFloat(query) * 3600];
+		} else if (query === '') {
+			seconds = [15 * 60, 30 * 60, 45 * 60, 3600, 90 * 60, 2 * 3600];
+		} else {
+			// "1h30" is completed as "1h30m"
+			const parsed = TimeParser.parseDuration(query) ?? TimeParser.parseDuration(query + 'm');
+			seconds = parsed !== null ? [parsed] : [];
+		}
+
+		return seconds
+			.filter(value => (option.min === undefined || value >= option.min) && (option.max === undefined || value <= option.max))
+			.map(value => TimeParser.formatDuration(value, option.format as DurationFormat));
+	}
+
+	/**
+	 * Times for a query, in the option's format and within its bounds
+	 * "7:05p" -> "19:05"; a bare hour gives morning and evening ("7" -> "07:00", "19:00"); empty gives now
+	 */
+	private getTimeValues(option: OptionItem, query: string): string[] {
+		let seconds: number[];
+		const parsed = TimeParser.parseTime(query) ?? TimeParser.parseTime(query + 'm');
+		if (parsed !== null) {
+			seconds = [parsed];
+		} else if (/^\d{1,2}$/.test(query) && parseInt(query, 10) <= 23) {
+			const hour = parseInt(query, 10);
+			seconds = hour > 0 && hour < 12 ? [hour * 3600, (hour + 12) * 3600] : [hour * 3600];
+		} else if (query === '') {
+			// Now, rounded down to 5 minutes
+			const now = new Date();
+			seconds = [now.getHours() * 3600 + Math.floor(now.getMinutes() / 5) * 5 * 60];
+		} else {
+			seconds = [];
+		}
+
+		return seconds
+			.filter(value => TimeParser.isTimeInRange(value, option.min, option.max))
+			.map(value => TimeParser.formatTime(value, option.format as TimeFormat));
+	}
+
+	/**
+	 * Filter suggestions by query and rank them
+	 * Keys match fuzzily ("pshu" -> "push_ups"); descriptions match as substrings and rank last
+	 * Equal scores keep the source order
 	 */
 	private filterSuggestions(suggestions: SuggestionItem[], query: string): SuggestionItem[] {
 		const caseSensitive = this.settings.globalSettings.caseSensitive;
 		const normalizedQuery = caseSensitive ? query : query.toLowerCase();
 
-		return suggestions.filter(suggestion => {
-			const key = caseSensitive ? suggestion.option.key : suggestion.option.key.toLowerCase();
+		const scored: { suggestion: SuggestionItem; score: number }[] = [];
+		for (const suggestion of suggestions) {
+			const match = this.matchKey(suggestion.option.key, query);
+			if (match) {
+				suggestion.matchIndices = match.indices;
+				scored.push({ suggestion, score: match.score });
+				continue;
+			}
+
+			// Typing a group name lists the whole group, after direct key matches
+			const group = suggestion.option.group;
+			if (group && (caseSensitive ? group : group.toLowerCase()).includes(normalizedQuery.trim())) {
+				suggestion.matchIndices = [];
+				scored.push({ suggestion, score: 0 });
+				continue;
+			}
+
 			const desc = suggestion.option.description
 				? (caseSensitive ? suggestion.option.description : suggestion.option.description.toLowerCase())
 				: '';
+			if (desc.includes(normalizedQuery)) {
+				suggestion.matchIndices = [];
+				scored.push({ suggestion, score: -Infinity });
+			}
+		}
 
-			return key.includes(normalizedQuery) || desc.includes(normalizedQuery);
-		});
+		return scored
+			.sort((a, b) => (b.score === a.score ? 0 : b.score > a.score ? 1 : -1))
+			.map(entry => entry.suggestion);
+	}
+
+	/**
+	 * Keep options of the same group together, groups in order of their first option
+	 * In multi-select mode, each group gets an entry that selects the whole group
+	 */
+	private groupSuggestions(suggestions: SuggestionItem[]): SuggestionItem[] {
+		this.groupMembers.clear();
+		if (!suggestions.some(suggestion => suggestion.option.group)) {
+			return suggestions;
+		}
+
+		const groups: Map<string, SuggestionItem[]> = new Map();
+		for (const suggestion of suggestions) {
+			const group = suggestion.option.group || '';
+			const members = groups.get(group) || [];
+			members.push(suggestion);
+			groups.set(group, members);
+		}
+
+		const result: SuggestionItem[] = [];
+		for (const [group, members] of groups) {
+			if (group && this.isMultiSelectMode) {
+				this.groupMembers.set(group, members);
+				result.push({
+					rule: members[0].rule,
+					option: { key: group },
+					displayText: group,
+					insertText: '',
+					groupSelect: group
+				});
+			}
+			result.push(...members);
+		}
+		return result;
+	}
+
+	/**
+	 * Fuzzy match a query against an option key
+	 * With transliteration enabled, also tries the key's pinyin/romaji spelling
+	 */
+	private matchKey(key: string, query: string): FuzzyMatch | null {
+		const caseSensitive = this.settings.globalSettings.caseSensitive;
+		let best = FuzzyMatcher.match(query, key, caseSensitive);
+
+		if (this.settings.globalSettings.transliterate) {
+			const latin = Transliterator.transliterate(key);
+			const latinMatch = latin && FuzzyMatcher.match(query, latin.text, false);
+			if (latin && latinMatch && (!best || latinMatch.score > best.score)) {
+				// Map matched latin characters back to the source characters
+				const indices = Array.from(new Set(latinMatch.indices.map(index => latin.sourceIndex[index])));
+				best = { score: latinMatch.score, indices };
+			}
+		}
+
+		return best;
 	}
 
 	/**
@@ -507,4 +1122,52 @@ export class FrontmatterSuggester extends EditorSuggest<SuggestionItem> {
 		// Basic format: "key: "
 		return `${option.key}: `;
 	}
+
+	/**
+	 * Resolve an option's default value
+	 * - "{{last}}": the value used for the same key in the previous note (by date in the name, else creation time)
+	 * - "{{date}}" or "{{date:DD.MM.YYYY}}": today's date
+	 * Anything else is inserted as written
+	 */
+	private resolveDefaultValue(template: string, fieldPath: string): string {
+		if (!template.includes('{{')) return template;
+
+		const resolved = template.replace(/\{\{\s*(last|date)(?::([^}]*))?\s*\}\}/g, (_match, name: string, format?: string) => {
+			if (name === 'date') {
+				return moment().format(format?.trim() || DEFAULT_DATE_FORMAT);
+			}
+			return this.valueIndex.getPreviousValue(fieldPath, this.app.workspace.getActiveFile()) ?? '';
+		}).trim();
+
+		return resolved ? FrontmatterParser.quote(resolved, false) : '';
+	}
+
+	/**
+	 * Build insert text for a value in the rule's output shape
+	 * - mapping: "value: "
+	 * - block-list: "- value"
+	 * - flow-list: "value" (added to the sequence on the field line)
+	 * - scalar: "value" (replaces the value on the field line)
+	 */
+	private buildShapedInsertText(value: string, shape: OutputShape): string {
+		switch (shape) {
+			case 'block-list':
+				return `- ${FrontmatterParser.quote(value, false)}`;
+			case 'flow-list':
+				return FrontmatterParser.quote(value, true);
+			case 'scalar':
+				return FrontmatterParser.quote(value, false);
+			default:
+				return `${value}: `;
+		}
+	}
+
+	/**
+	 * Get how a rule's items are written
+	 * Tags and files default to a block list, everything else to a mapping
+	 */
+	private getOutputShape(rule: FieldRule): OutputShape {
+		if (rule.outputShape) return rule.outputShape;
+		return rule.sourceType === 'vault-tags' || rule.sourceType === 'vault-files' ? 'block-list' : 'mapping';
+	}
 }
@@ -0,0 +1,159 @@
+import { EditorView, Decoration, DecorationSet } from '@codemirror/view';
+import { EditorSelection, EditorState, Extension, Prec, StateEffect, StateField } from '@codemirror/state';
+import { Editor, EditorPosition } from 'obsidian';
+
+interface TabStopRange {
+	from: number;
+	to: number;
+}
+
+interface TabStopState {
+	ranges: TabStopRange[];
+	active: number;  // Index of the current tab stop
+}
+
+/**
+ * Effect that starts a tab stop session (or ends it with null)
+ */
+const setTabStopsEffect = StateEffect.define<TabStopRange[] | null>();
+
+/**
+ * Effect that moves to another tab stop
+ */
+const moveTabStopEffect = StateEffect.define<number>();
+
+const tabStopMark = Decoration.mark({ class: 'frontmatter-tab-stop' });
+
+/**
+ * Check if a position is inside the document's frontmatter (between the --- lines)
+ */
+function isInFrontmatter(state: EditorState, pos: number): boolean {
+	const doc = state.doc;
+	if (doc.lines < 2 || doc.line(1).text.trim() !== '---') return false;
+
+	const line = doc.lineAt(pos).number;
+	for (let i = 2; i <= doc.lines; i++) {
+		if (doc.line(i).text.trim() === '---') {
+			return line > 1 && line < i;
+		}
+	}
+	return false;
+}
+
+/**
+ * Tab stops of the current session, mapped through document changes
+ * The session ends when the cursor leaves the frontmatter
+ */
+const tabStopField = StateField.define<TabStopState | null>({
+	create: () => null,
+
+	update(value, tr) {
+		for (const effect of tr.effects) {
+			if (effect.is(setTabStopsEffect)) {
+				return effect.value && effect.value.length > 0 ? { ranges: effect.value, active: 0 } : null;
+			}
+		}
+		if (!value) return null;
+
+		let active = value.active;
+		for (const effect of tr.effects) {
+			if (effect.is(moveTabStopEffect)) {
+				active = effect.value;
+			}
+		}
+
+		// Text typed at either edge of a tab stop belongs to it
+		const ranges = tr.docChanged
+			? value.ranges.map(range => ({
+				from: tr.changes.mapPos(range.from, -1),
+				to: tr.changes.mapPos(range.to, 1)
+			}))
+			: value.ranges;
+
+		if (tr.selection && !isInFrontmatter(tr.state, tr.state.selection.main.head)) {
+			return null;
+		}
+
+		return { ranges, active };
+	},
+
+	provide: field => EditorView.decorations.from(field, (value): DecorationSet => {
+		if (!value) return Decoration.none;
+		const marks = value.ranges
+			.filter(range => range.to > range.from)
+			.sort((a, b) => a.from - b.from)
+			.map(range => tabStopMark.range(range.from, range.to));
+		return Decoration.set(marks);
+	})
+});
+
+/**
+ * Move to the next (or previous) tab stop
+ * Moving past the last one ends the session with the cursor at its end
+ */
+function moveTabStop(view: EditorView, direction: 1 | -1): boolean {
+	const value = view.state.field(tabStopField, false);
+	if (!value) return false;
+
+	const next = value.active + direction;
+	if (next < 0) return true;
+
+	if (next >= value.ranges.length) {
+		const last = value.ranges[value.ranges.length - 1];
+		view.dispatch({
+			selection: EditorSelection.cursor(last.to),
+			effects: setTabStopsEffect.of(null)
+		});
+		return true;
+	}
+
+	const range = value.ranges[next];
+	view.dispatch({
+		selection: EditorSelection.range(range.from, range.to),
+		effects: moveTabStopEffect.of(next),
+		scrollIntoView: true
+	});
+	return true;
+}
+
+/**
+ * Start a tab stop session in an editor and select the first stop
+ */
+export function setTabStops(editor: Editor, stops: { from: EditorPosition; to: EditorPosition }[]): void {
+	// Obsidian exposes the CodeMirror view as `editor.cm`
+	const view = (editor as any).cm as EditorView | undefined;
+	if (!view || stops.length === 0) return;
+
+	const ranges = stops.map(stop => ({ from: editor.posToOffset(stop.from), to: editor.posToOffset(stop.to) }));
+	view.dispatch({
+		selection: EditorSelection.range(ranges[0].from, ranges[0].to),
+		effects: setTabStopsEffect.of(ranges)
+	});
+}
+
+/**
+ * Create the editor extension: Tab / Shift-Tab move between tab stops, Esc ends the session
+ */
+export function createTabStopExtension(): Extension {
+	const keyHandler = EditorView.domEventHandlers({
+		keydown: (event, view) => {
+			// Already handled elsewhere, e.g. Esc closing the suggestion popup
+			if (event.defaultPrevented || !view.state.field(tabStopField, false)) return false;
+
+			let handled = false;
+			if (event.key === 'Tab' && !event.ctrlKey && !event.metaKey && !event.altKey) {
+				handled = moveTabStop(view, event.shiftKey ? -1 : 1);
+			} else if (event.key === 'Escape') {
+				view.dispatch({ effects: setTabStopsEffect.of(null) });
+				handled = true;
+			}
+
+			if (handled) {
+				event.preventDefault();
+			}
+			return handled;
+		}
+	});
+
+	return [tabStopField, Prec.highest(keyHandler)];
+}
@@ -0,0 +1,94 @@
+import { App, getAllTags } from 'obsidian';
+import { VaultTagsConfig } from './types';
+
+export interface TagUsage {
+	tag: string;    // Tag without leading "#", e.g., "health/sleep"
+	count: number;  // Number of notes using this tag or any nested tag
+}
+
+/**
+ * Collect tags from the vault's metadata cache
+ * Covers both inline #tags and frontmatter `tags`
+ */
+export class TagSource {
+	// All vault tags, ranked; rebuilt on first use after invalidate()
+	private static cache: TagUsage[] | null = null;
+
+	/**
+	 * Forget the cached tags (call when the metadata cache or the vault changes)
+	 */
+	static invalidate(): void {
+		this.cache = null;
+	}
+
+	/**
+	 * Get all vault tags ranked by usage count
+	 * Parent tags are included so nested tags can be browsed by prefix,
+	 * e.g., "#health/sleep" also counts towards "health"
+	 */
+	static getTags(app: App, config?: VaultTagsConfig): TagUsage[] {
+		if (!this.cache) {
+			this.cache = this.collectTags(app);
+		}
+
+		const rootTag = config?.rootTag ? this.normalizeTag(config.rootTag) : '';
+		return rootTag ? this.cache.filter(usage => this.isInSubtree(usage.tag, rootTag)) : this.cache;
+	}
+
+	private static collectTags(app: App): TagUsage[] {
+		const counts: Map<string, number> = new Map();
+
+		for (const file of app.vault.getMarkdownFiles()) {
+			const cache = app.metadataCache.getFileCache(file);
+			if (!cache) continue;
+
+			const fileTags = getAllTags(cache) || [];
+
+			// Count each tag (and its ancestors) once per note
+			const seen: Set<string> = new Set();
+			for (const rawTag of fileTags) {
+				const tag = this.normalizeTag(rawTag);
+				const segments = tag.split('/');
+				for (let i = 1; i <= segments.length; i++) {
+					seen.add(segments.slice(0, i).join('/'));
+				}
+			}
+
+			for (const tag of seen) {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			}
+		}
+
+		const result: TagUsage[] = [];
+		for (const [tag, count] of counts) {
+			result.push({ tag, count });
+		}
+
+		// Most used first, then alphabetical
+		return result.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+	}
+
+	/**
+	 * Format a tag for insertion into YAML
+	 * Tags with "#" must be quoted, otherwise YAML reads them as comments
+	 */
+	static formatTag(tag: string, config?: VaultTagsConfig): string {
+		return config?.includeHash ? `"#${tag}"` : tag;
+	}
+
+	/**
+	 * Strip leading "#" and surrounding slashes
+	 */
+	static normalizeTag(tag: string): string {
+		return tag.trim().replace(/^#/, '').replace(/^\/+|\/+$/g, '');
+	}
+
+	/**
+	 * Check if a tag is the root tag or nested under it
+	 */
+	private static isInSubtree(tag: string, rootTag: string): boolean {
+		const lowerTag = tag.toLowerCase();
+		const lowerRoot = rootTag.toLowerCase();
+		return lowerTag === lowerRoot || lowerTag.startsWith(lowerRoot + '/');
+	}
+}
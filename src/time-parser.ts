@@ -0,0 +1,135 @@
+import { DurationFormat, TimeFormat } from './types';
+
+export const DEFAULT_DURATION_FORMAT: DurationFormat = 'compact';
+export const DEFAULT_TIME_FORMAT: TimeFormat = 'HH:mm';
+
+export const DURATION_FORMATS: DurationFormat[] = ['compact', 'h:mm', 'hh:mm:ss', 'minutes'];
+export const TIME_FORMATS: TimeFormat[] = ['HH:mm', 'h:mm a'];
+
+const DAY_SECONDS = 24 * 3600;
+
+// Seconds per duration unit, by every accepted spelling
+const DURATION_UNITS: Record<string, number> = {
+	d: 86400, day: 86400, days: 86400,
+	h: 3600, hr: 3600, hrs: 3600, hour: 3600, hours: 3600,
+	m: 60, min: 60, mins: 60, minute: 60, minutes: 60,
+	s: 1, sec: 1, secs: 1, second: 1, seconds: 1
+};
+
+/**
+ * Parse and format durations and times of day, both counted in seconds
+ * Durations: "1h30m", "1h 30m", "45 min", "1.5 hours", "1:30", "01:30:00"
+ * Times: "23:15", "7:05", "7:05 am", "7pm"
+ */
+export class TimeParser {
+	/**
+	 * Parse a duration to seconds, or null if it isn't one
+	 * A plain number has no unit and is not a duration
+	 */
+	static parseDuration(text: string): number | null {
+		const value = text.trim().toLowerCase();
+
+		// "1:30" (h:mm) or "01:30:00" (h:mm:ss)
+		const clock = value.match(/^(\d+):([0-5]\d)(?::([0-5]\d))?$/);
+		if (clock) {
+			return parseInt(clock[1], 10) * 3600 + parseInt(clock[2], 10) * 60 + parseInt(clock[3] || '0', 10);
+		}
+
+		// "1h30m", "1h 30m", "45 min", "1.5 hours", "2 hours, 10 minutes"
+		const partPattern = /(\d+(?:\.\d+)?)\s*([a-z]+)[\s,]*/g;
+		let seconds = 0;
+		let consumed = 0;
+		let match: RegExpExecArray | null;
+		while ((match = partPattern.exec(value)) !== null) {
+			if (match.index !== consumed || !(match[2] in DURATION_UNITS)) return null;
+			seconds += parseFloat(match[1]) * DURATION_UNITS[match[2]];
+			consumed = partPattern.lastIndex;
+		}
+
+		return consumed > 0 && consumed === value.length ? Math.round(seconds) : null;
+	}
+
+	/**
+	 * Write a duration in a format
+	 * compact: "1h30m", h:mm: "1:30", hh:mm:ss: "01:30:00", minutes: "90 min"
+	 */
+	static formatDuration(seconds: number, format: DurationFormat = DEFAULT_DURATION_FORMAT): string {
+		const total = Math.max(0, Math.round(seconds));
+		const hours = Math.floor(total / 3600);
+		const minutes = Math.floor((total % 3600) / 60);
+		const secs = total % 60;
+
+		switch (format) {
+			case 'h:mm':
+				return `${hours}:${this.pad(minutes)}` + (secs > 0 ? `:${this.pad(secs)}` : '');
+			case 'hh:mm:ss':
+				return `${this.pad(hours)}:${this.pad(minutes)}:${this.pad(secs)}`;
+			case 'minutes':
+				return `${Math.round(total / 60 * 100) / 100} min`;
+			default: {
+				const parts = [
+					hours > 0 ? `${hours}h` : '',
+					minutes > 0 ? `${minutes}m` : '',
+					secs > 0 ? `${secs}s` : ''
+				].join('');
+				return parts || '0m';
+			}
+		}
+	}
+
+	/**
+	 * Parse a time of day to seconds after midnight, or null if it isn't one
+	 * Without am/pm, minutes are required ("7" is not a time, "7:00" and "7pm" are)
+	 */
+	static parseTime(text: string): number | null {
+		const match = text.trim().toLowerCase()
+			.match(/^(\d{1,2})(?::([0-5]\d))?(?::([0-5]\d))?\s*(am|pm|a\.m\.|p\.m\.|a|p)?$/);
+		if (!match || (!match[2] && !match[4])) return null;
+
+		let hours = parseInt(match[1], 10);
+		const minutes = parseInt(match[2] || '0', 10);
+		const seconds = parseInt(match[3] || '0', 10);
+
+		if (match[4]) {
+			if (hours < 1 || hours > 12) return null;
+			const pm = match[4].startsWith('p');
+			hours = hours % 12 + (pm ? 12 : 0);
+		} else if (hours > 23) {
+			return null;
+		}
+
+		return hours * 3600 + minutes * 60 + seconds;
+	}
+
+	/**
+	 * Write a time of day in a format
+	 * HH:mm: "07:05", h:mm a: "7:05 am"
+	 */
+	static formatTime(seconds: number, format: TimeFormat = DEFAULT_TIME_FORMAT): string {
+		const total = ((Math.round(seconds) % DAY_SECONDS) + DAY_SECONDS) % DAY_SECONDS;
+		const hours = Math.floor(total / 3600);
+		const minutes = Math.floor((total % 3600) / 60);
+		const secs = total % 60;
+		const secondsPart = secs > 0 ? `:${this.pad(secs)}` : '';
+
+		if (format === 'h:mm a') {
+			return `${hours % 12 || 12}:${this.pad(minutes)}${secondsPart} ${hours < 12 ? 'am' : 'pm'}`;
+		}
+		return `${this.pad(hours)}:${this.pad(minutes)}${secondsPart}`;
+	}
+
+	/**
+	 * Check if a time is within bounds
+	 * A range past midnight ("22:00..02:00") wraps around
+	 */
+	static isTimeInRange(seconds: number, min?: number, max?: number): boolean {
+		if (min !== undefined && max !== undefined && min > max) {
+			return seconds >= min || seconds <= max;
+		}
+		return (min === undefined || seconds >= min) && (max === undefined || seconds <= max);
+	}
+
+	private static pad(value: number): string {
+		return value < 10 ? `0${value}` : String(value);
+	}
+}
@@ -0,0 +1,136 @@
+export interface Transliteration {
+	text: string;           // Latin text
+	sourceIndex: number[];  // For each character of text, the position of its source character
+}
+
+// Characters that start each pinyin initial in pinyin collation order (no words start with i, u, v)
+const PINYIN_BOUNDARIES = '吖丷嚓咑妸发旮哈丌咔垃呣拏喔妑七呥仨他屲夕丫帀';
+const PINYIN_INITIALS = 'abcdefghjklmnopqrstwxyz';
+
+const HIRAGANA = 'あいうえおかきくけこさしすせそたちつてとなにぬねのはひふへほまみむめもやゆよらりるれろわをん'
+	+ 'がぎぐげござじずぜぞだぢづでどばびぶべぼぱぴぷぺぽぁぃぅぇぉゔゐゑ';
+const ROMAJI = ('a i u e o ka ki ku ke ko sa shi su se so ta chi tsu te to na ni nu ne no ha hi fu he ho '
+	+ 'ma mi mu me mo ya yu yo ra ri ru re ro wa wo n '
+	+ 'ga gi gu ge go za ji zu ze zo da ji zu de do ba bi bu be bo pa pi pu pe po a i u e o vu i e').split(' ');
+
+const KANA_ROMAJI: Map<string, string> = new Map(
+	Array.from(HIRAGANA).map((kana, index): [string, string] => [kana, ROMAJI[index]])
+);
+
+const SMALL_Y: Record<string, string> = { 'ゃ': 'a', 'ゅ': 'u', 'ょ': 'o' };
+
+/**
+ * Latin spelling of Chinese and Japanese text for matching
+ * - Chinese characters: pinyin initials ("阿托伐他汀" -> "atftt")
+ * - Kana: Hepburn romaji ("スクワット" -> "sukuwatto")
+ * Pinyin comes from the runtime's pinyin collation, so no dictionary is bundled
+ */
+export class Transliterator {
+	private static collator: Intl.Collator | null | undefined;
+	private static cache: Map<string, Transliteration | null> = new Map();
+
+	/**
+	 * Transliterate a text
+	 * Other characters are kept as they are
+	 * Returns null if the text has nothing to transliterate
+	 */
+	static transliterate(text: string): Transliteration | null {
+		const cached = this.cache.get(text);
+		if (cached !== undefined) return cached;
+
+		const result = this.build(text);
+		this.cache.set(text, result);
+		return result;
+	}
+
+	private static build(text: string): Transliteration | null {
+		const pieces: { latin: string; source: number }[] = [];
+		let changed = false;
+
+		for (let i = 0; i < text.length; i++) {
+			const char = text[i];
+			const last = pieces[pieces.length - 1];
+
+			if (/[一-龥]/.test(char)) {
+				const initial = this.getPinyinInitial(char);
+				if (initial) {
+					pieces.push({ latin: initial, source: i });
+					changed = true;
+					continue;
+				}
+			}
+
+			const hiragana = this.toHiragana(char);
+			const romaji = KANA_ROMAJI.get(hiragana);
+
+			if (romaji !== undefined) {
+				// Sokuon doubles the next consonant ("っと" -> "tto")
+				if (last && last.latin === '') {
+					last.latin = romaji[0];
+				}
+				pieces.push({ latin: romaji, source: i });
+				changed = true;
+			} else if (SMALL_Y[hiragana] && last && last.latin.endsWith('i')) {
+				// Contracted sounds ("きゃ" -> "kya", "しゃ" -> "sha")
+				const base = last.latin.slice(0, -1);
+				last.latin = /(sh|ch|j)$/.test(base) ? base + SMALL_Y[hiragana] : `${base}y${SMALL_Y[hiragana]}`;
+				changed = true;
+			} else if (hiragana === 'っ') {
+				pieces.push({ latin: '', source: i });
+				changed = true;
+			} else if (char === 'ー' && last && /[aeiou]$/.test(last.latin)) {
+				// Long vowel mark repeats the vowel
+				pieces.push({ latin: last.latin.slice(-1), source: i });
+				changed = true;
+			} else {
+				pieces.push({ latin: char, source: i });
+			}
+		}
+
+		if (!changed) return null;
+
+		const sourceIndex: number[] = [];
+		for (const piece of pieces) {
+			for (let k = 0; k < piece.latin.length; k++) {
+				sourceIndex.push(piece.source);
+			}
+		}
+
+		return { text: pieces.map(piece => piece.latin).join(''), sourceIndex };
+	}
+
+	/**
+	 * First letter of a Chinese character's pinyin, or '' if unknown
+	 */
+	private static getPinyinInitial(char: string): string {
+		const collator = this.getCollator();
+		if (!collator) return '';
+
+		let initial = '';
+		for (let i = 0; i < PINYIN_BOUNDARIES.length; i++) {
+			if (collator.compare(PINYIN_BOUNDARIES[i], char) > 0) break;
+			initial = PINYIN_INITIALS[i];
+		}
+		return initial;
+	}
+
+	/**
+	 * Pinyin collator, or null if the runtime has no Chinese collation
+	 */
+	private static getCollator(): Intl.Collator | null {
+		if (this.collator === undefined) {
+			const collator = new Intl.Collator('zh-Hans-CN-u-co-pinyin');
+			// Without Chinese locale data the collator falls back to another locale
+			this.collator = collator.resolvedOptions().locale.startsWith('zh') ? collator : null;
+		}
+		return this.collator;
+	}
+
+	/**
+	 * Map katakana to hiragana (same table)
+	 */
+	private static toHiragana(char: string): string {
+		const code = char.charCodeAt(0);
+		return code >= 0x30a1 && code <= 0x30f6 ? String.fromCharCode(code - 0x60) : char;
+	}
+}
@@ -3,21 +3,50 @@
 export interface PluginSettings {
 	rules: FieldRule[];
 	globalSettings: GlobalSettings;
+	optionUsage?: Record<string, Record<string, OptionUsage>>; // Rule id -> option key -> pick statistics
+	ruleSets?: RuleSetConfig[];    // Scopes of named rule sets
+	customUnits?: UnitDefinition[]; // Units added to the built-in conversion tables
+}
+
+export interface RuleSetConfig {
+	name: string;      // Rule set name, as used in FieldRule.ruleSet
+	scope: RuleScope;  // Notes the rules of this set apply to
+}
+
+// Notes a rule (or rule set) applies to; every given condition must match
+export interface RuleScope {
+	folder?: string;       // Folder glob, e.g., "Journal/**" (also covers subfolders)
+	tag?: string;          // Required tag, e.g., "daily" (nested tags count)
+	filePattern?: string;  // Regular expression for the file name, e.g., "^\d{4}-\d{2}-\d{2}$"
+	noteType?: string;     // Value of the frontmatter `type` property, e.g., "log"
+}
+
+export interface OptionUsage {
+	count: number;     // Times the option was picked
+	lastUsed: number;  // Last pick time (ms)
 }
 
 export interface FieldRule {
 	id: string;                    // Unique identifier (UUID)
 	enabled: boolean;              // Whether this rule is active
-	parentField: string;           // Parent field name (e.g., "Habits Yestoday")
-	childField?: string;           // Child field name (optional, e.g., "Exercises")
-	fieldPath?: string;            // Auto-generated: parentField.childField or just parentField
+	pathSegments: string[];        // Property names from top level down (e.g., ["Health", "Habits", "Exercises"])
+	fieldPath?: string;            // Auto-generated: pathSegments joined with "."
+	parentField?: string;          // Legacy: first path segment, migrated to pathSegments
+	childField?: string;           // Legacy: second path segment, migrated to pathSegments
 	sourceType: SourceType;        // Data source type
 	options?: OptionItem[];        // Inline options (when sourceType = 'inline')
 	valueConfig?: ValueConfig;     // Value configuration
 	displayFormat?: DisplayFormat; // Display format configuration
 	indent?: number;               // Custom indent (optional, default auto-calculated)
 	description?: string;          // Rule description
+	ruleSet?: string;              // Optional rule set name, e.g., "Daily note"
+	scope?: RuleScope;             // Notes this rule applies to (default: all notes)
 	multiSelect?: boolean;         // Enable multi-select mode (default: false)
+	outputShape?: OutputShape;     // How selected items are written (default: list for tags/files, otherwise mapping)
+	optionSort?: OptionSortOrder;  // Order of inline options (default: 'manual')
+	tagsConfig?: VaultTagsConfig;  // Tag source configuration (when sourceType = 'vault-tags')
+	filesConfig?: VaultFilesConfig; // File source configuration (when sourceType = 'vault-files')
+	dateConfig?: DateConfig;       // Date source configuration (when sourceType = 'date')
 }
 
 export type SourceType =
@@ -27,13 +56,67 @@ export type SourceType =
 	| 'date'          // Date picker
 	| 'recent-values' // Recently used values
 
+export type OutputShape =
+	| 'mapping'       // Sub-keys: "  hiking: "
+	| 'block-list'    // Block sequence: "  - hiking"
+	| 'flow-list'     // Flow sequence on the field line: "[hiking, running]"
+	| 'scalar'        // Single value on the field line: "status: done"
+
+export type OptionSortOrder =
+	| 'manual'        // Order in the options list
+	| 'most-used'     // Most picked first
+	| 'most-recent'   // Most recently picked first
+	| 'alphabetical'  // By key
+
 export interface OptionItem {
 	key: string;                        // Required: the key to insert
 	description?: string;               // Optional: description text
 	icon?: string;                      // Optional: emoji icon
-	type?: 'number' | 'boolean' | 'enum'; // Value type for validation
+	group?: string;                     // Optional: group path, e.g., "Strength/Upper body"
+	defaultValue?: string;              // Optional: value inserted with the key ("3 km", "{{last}}", "{{date}}")
+	type?: OptionType;                  // Value type for validation
 	units?: string[];                   // For number: allowed units (empty = no unit)
+	canonicalUnit?: string;             // For number: unit that values in other units are normalized to
 	enumValues?: string[];              // For enum: allowed values
+	min?: number;                       // Lowest number (in the canonical unit, if any); for duration: shortest (seconds); for time: earliest (seconds after midnight)
+	max?: number;                       // Highest number; for duration: longest; for time: latest (a time range may wrap past midnight)
+	step?: number;                      // For number: values are whole steps from min (or 0), e.g., 0.5
+	integer?: boolean;                  // For number: whole numbers only
+	precision?: number;                 // For number: most decimals allowed
+	format?: DurationFormat | TimeFormat; // For duration and time: canonical format values are normalized to
+}
+
+export type OptionType =
+	| 'number'        // Number with optional unit: "5 km"
+	| 'boolean'       // true / false
+	| 'enum'          // One of the listed values
+	| 'duration'      // Length of time: "1h30m", "45 min", "01:30:00"
+	| 'time'          // Time of day: "23:15", "7:05 am"
+
+export type DurationFormat =
+	| 'compact'       // "1h30m"
+	| 'h:mm'          // "1:30"
+	| 'hh:mm:ss'      // "01:30:00"
+	| 'minutes'       // "90 min"
+
+export type TimeFormat =
+	| 'HH:mm'         // "23:15"
+	| 'h:mm a'        // "11:15 pm"
+
+export interface VaultTagsConfig {
+	rootTag?: string;      // Restrict to a tag subtree (e.g., "health" matches "health/sleep")
+	includeHash?: boolean; // Insert tags with leading "#" (default: false)
+}
+
+export interface VaultFilesConfig {
+	folder?: string;                   // Restrict to files under this folder (e.g., "Projects")
+	extensions?: string[];             // Allowed extensions without dot (empty = all files)
+	requiredTag?: string;              // Only files with this tag (e.g., "project")
+	linkFormat?: 'wikilink' | 'path';  // Insert as [[wikilink]] or plain path (default: 'wikilink')
+}
+
+export interface DateConfig {
+	format?: string;  // Moment.js format string (default: "YYYY-MM-DD")
 }
 
 export interface ValueConfig {
@@ -65,6 +148,22 @@ export interface ValidationResult {
 	valid: boolean;
 	error?: string;
 	suggestion?: string;
+	severity?: 'error' | 'warning'; // Warnings flag valid but non-canonical values (default: 'error')
+	fixes?: QuickFix[];             // Structured fixes, best first
+}
+
+export interface QuickFix {
+	label: string;  // Action label, e.g., 'Replace with "10 km"'
+	value: string;  // Replacement for the invalid value
+	unitConversion?: boolean; // Converts the value to its option's canonical unit
+	autoApplicable?: boolean; // Safe to apply without review ("Fix all", fix command); others are guesses for the tooltip
+}
+
+// Unit for conversions; units of the same dimension convert into each other
+export interface UnitDefinition {
+	unit: string;       // Unit name as written after the number, e.g., "mi"
+	dimension: string;  // What it measures, e.g., "length" (built-in: length, mass, volume, time)
+	factor: number;     // Size in the dimension's base unit, e.g., 1609.344 for "mi" (base "m")
 }
 
 export interface UnitConfig {
@@ -82,6 +181,9 @@ export interface GlobalSettings {
 	maxSuggestions: number;     // Maximum suggestions
 	caseSensitive: boolean;     // Case sensitive matching
 	autoIndent: boolean;        // Auto-calculate indent
+	transliterate?: boolean;    // Also match Chinese by pinyin initials and kana by romaji
+	offerKeyRename?: boolean;   // Offer to rename keys in notes when an option key is renamed in the rule editor
+	warnNonCanonicalUnits?: boolean; // Warn on numbers written in another unit than their option's canonical unit
 }
 
 // Suggestion item structure
@@ -90,6 +192,29 @@ export interface SuggestionItem {
 	option: OptionItem;
 	displayText: string;
 	insertText: string;
+	valueInsert?: boolean;  // Insert on the current line (after colon or "- ") instead of a new child line
+	matchIndices?: number[]; // Characters of option.key matched by the query, for highlighting
+	groupSelect?: string;   // Multi-select entry that toggles every option of this group
+	defaultValue?: string;  // Resolved default value after the key, selected after insertion
+	tabStop?: boolean;      // "key: value" entry whose value (and unit) become tab stops after insertion
+	unitPlaceholder?: string; // Unit at the end of insertText, after the value, as its own tab stop
+}
+
+// Line-based access to a document (an Editor, or plain note text)
+export interface LineSource {
+	getLine(line: number): string;
+	lineCount(): number;
+}
+
+// Validation issue found in a note's frontmatter
+export interface FrontmatterIssue {
+	rule: FieldRule;
+	line: number;     // Line number (0-based)
+	from: number;     // Start column of the invalid value
+	to: number;       // End column of the invalid value
+	key?: string;     // Key on the line (e.g., "hiking"), if any
+	value: string;    // The invalid value as written
+	result: ValidationResult;
 }
 
 // Frontmatter bounds
@@ -113,6 +238,17 @@ export const DEFAULT_SETTINGS: PluginSettings = {
 		minMatchLength: 0,
 		maxSuggestions: 10,
 		caseSensitive: false,
-		autoIndent: true
-	}
+		autoIndent: true,
+		transliterate: false,
+		offerKeyRename: true,
+		warnNonCanonicalUnits: true
+	},
+	optionUsage: {},
+	ruleSets: [],
+	customUnits: []
 };
+
+// Unique id for a new rule
+export function generateRuleId(): string {
+	return 'rule-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
+}
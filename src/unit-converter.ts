@@ -0,0 +1,168 @@
+import { UnitDefinition } from './types';
+
+// Base unit of each built-in dimension (factor 1)
+const BASE_UNITS: Record<string, string> = {
+	length: 'm',
+	mass: 'g',
+	volume: 'ml',
+	time: 's'
+};
+
+// Built-in units with their size in the dimension's base unit
+const BUILT_IN_UNITS: UnitDefinition[] = [
+	// Length (m)
+	{ unit: 'mm', dimension: 'length', factor: 0.001 },
+	{ unit: 'cm', dimension: 'length', factor: 0.01 },
+	{ unit: 'm', dimension: 'length', factor: 1 },
+	{ unit: 'km', dimension: 'length', factor: 1000 },
+	{ unit: 'in', dimension: 'length', factor: 0.0254 },
+	{ unit: 'ft', dimension: 'length', factor: 0.3048 },
+	{ unit: 'yd', dimension: 'length', factor: 0.9144 },
+	{ unit: 'mi', dimension: 'length', factor: 1609.344 },
+	{ unit: 'mile', dimension: 'length', factor: 1609.344 },
+	{ unit: 'miles', dimension: 'length', factor: 1609.344 },
+	// Mass (g)
+	{ unit: 'mg', dimension: 'mass', factor: 0.001 },
+	{ unit: 'g', dimension: 'mass', factor: 1 },
+	{ unit: 'kg', dimension: 'mass', factor: 1000 },
+	{ unit: 't', dimension: 'mass', factor: 1000000 },
+	{ unit: 'oz', dimension: 'mass', factor: 28.349523125 },
+	{ unit: 'lb', dimension: 'mass', factor: 453.59237 },
+	{ unit: 'lbs', dimension: 'mass', factor: 453.59237 },
+	// Volume (ml)
+	{ unit: 'ml', dimension: 'volume', factor: 1 },
+	{ unit: 'cl', dimension: 'volume', factor: 10 },
+	{ unit: 'dl', dimension: 'volume', factor: 100 },
+	{ unit: 'l', dimension: 'volume', factor: 1000 },
+	{ unit: 'tsp', dimension: 'volume', factor: 4.92892159375 },
+	{ unit: 'tbsp', dimension: 'volume', factor: 14.78676478125 },
+	{ unit: 'fl oz', dimension: 'volume', factor: 29.5735295625 },
+	{ unit: 'cup', dimension: 'volume', factor: 236.5882365 },
+	{ unit: 'pt', dimension: 'volume', factor: 473.176473 },
+	{ unit: 'gal', dimension: 'volume', factor: 3785.411784 },
+	// Time (s)
+	{ unit: 'ms', dimension: 'time', factor: 0.001 },
+	{ unit: 's', dimension: 'time', factor: 1 },
+	{ unit: 'sec', dimension: 'time', factor: 1 },
+	{ unit: 'min', dimension: 'time', factor: 60 },
+	{ unit: 'h', dimension: 'time', factor: 3600 },
+	{ unit: 'hr', dimension: 'time', factor: 3600 },
+	{ unit: 'd', dimension: 'time', factor: 86400 },
+	{ unit: 'wk', dimension: 'time', factor: 604800 }
+];
+
+// Litres are commonly written with a capital L
+const UNIT_ALIASES: Record<string, string> = {
+	L: 'l',
+	mL: 'ml',
+	cL: 'cl',
+	dL: 'dl'
+};
+
+/**
+ * Convert numbers between units of the same dimension (length, mass, volume, time or custom)
+ * Custom units replace built-in units with the same name
+ * Unit names match case-sensitively, except for aliases ("L" = "l") and names of 3 or more letters ("Miles" = "miles")
+ * Short symbols keep their case, since it changes their meaning ("Mm" is megametres, not "mm")
+ */
+export class UnitConverter {
+	private units: Map<string, UnitDefinition> = new Map();
+
+	constructor(customUnits: UnitDefinition[] = []) {
+		for (const definition of [...BUILT_IN_UNITS, ...customUnits]) {
+			this.units.set(definition.unit, definition);
+		}
+	}
+
+	/**
+	 * Find a unit by name
+	 */
+	find(unit: string): UnitDefinition | undefined {
+		const exact = this.units.get(unit) || this.units.get(UNIT_ALIASES[unit]);
+		if (exact || unit.length < 3) return exact;
+
+		const lowerUnit = unit.toLowerCase();
+		for (const definition of this.units.values()) {
+			if (definition.unit.toLowerCase() === lowerUnit) return definition;
+		}
+		return undefined;
+	}
+
+	/**
+	 * Check if two units measure the same dimension
+	 */
+	canConvert(from: string, to: string): boolean {
+		const fromUnit = this.find(from);
+		const toUnit = this.find(to);
+		return !!fromUnit && !!toUnit && fromUnit.dimension === toUnit.dimension;
+	}
+
+	/**
+	 * Convert a number between units, or null if they don't convert
+	 */
+	convert(value: number, from: string, to: string): number | null {
+		const fromUnit = this.find(from);
+		const toUnit = this.find(to);
+		if (!fromUnit || !toUnit || fromUnit.dimension !== toUnit.dimension) return null;
+
+		return value * fromUnit.factor / toUnit.factor;
+	}
+
+	/**
+	 * Format a converted number without losing digits, only dropping floating-point noise
+	 * Examples: 8.04672 -> "8.04672", 1.499 -> "1.499", 0.30000000000000004 -> "0.3"
+	 */
+	static formatNumber(value: number): string {
+		return String(parseFloat(value.toPrecision(12)));
+	}
+
+	/**
+	 * Parse custom unit definitions, one per line
+	 * - "lap = 400 m": a unit measured in an existing unit
+	 * - "serving": the base unit of a new dimension
+	 */
+	static parseDefinitions(text: string, existing: UnitDefinition[] = []): { units: UnitDefinition[]; errors: string[] } {
+		const units: UnitDefinition[] = [];
+		const errors: string[] = [];
+
+		for (const rawLine of text.split('\n')) {
+			const line = rawLine.trim();
+			if (line === '' || line.startsWith('#')) continue;
+
+			const equalsIndex = line.indexOf('=');
+			if (equalsIndex === -1) {
+				units.push({ unit: line, dimension: line, factor: 1 });
+				continue;
+			}
+
+			const unit = line.substring(0, equalsIndex).trim();
+			const match = line.substring(equalsIndex + 1).trim().match(/^([-+]?\d*\.?\d+(?:e[-+]?\d+)?)\s*(.+)$/i);
+			// Units defined above can be used as references too
+			const reference = match ? new UnitConverter([...existing, ...units]).find(match[2].trim()) : undefined;
+			const amount = match ? parseFloat(match[1]) : NaN;
+
+			if (!unit || !reference || !(amount > 0)) {
+				errors.push(`Can't read "${line}" (expected e.g. "lap = 400 m")`);
+				continue;
+			}
+			units.push({ unit, dimension: reference.dimension, factor: amount * reference.factor });
+		}
+
+		return { units, errors };
+	}
+
+	/**
+	 * Write custom unit definitions back as text (see parseDefinitions)
+	 */
+	static formatDefinitions(units: UnitDefinition[]): string {
+		const customBases = new Map(units
+			.filter(definition => definition.factor === 1 && definition.unit === definition.dimension)
+			.map(definition => [definition.dimension, definition.unit] as [string, string]));
+
+		return units.map(definition => {
+			const base = BASE_UNITS[definition.dimension] || customBases.get(definition.dimension);
+			if (!base || base === definition.unit) return definition.unit;
+			return `${definition.unit} = ${parseFloat(definition.factor.toPrecision(12))} ${base}`;
+		}).join('\n');
+	}
+}
@@ -1,47 +1,60 @@
-import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
-import { RangeSetBuilder } from '@codemirror/state';
-import { ValidationResult } from './types';
+import { EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, hoverTooltip } from '@codemirror/view';
+import { Extension, RangeSetBuilder, StateEffect } from '@codemirror/state';
+import { editorInfoField } from 'obsidian';
+import { QuickFix, ValidationResult } from './types';
 
 /**
- * Validation error widget for hover tooltips
+ * Effect dispatched when new validation errors are available for an editor
+ * Lets the view plugin rebuild decorations without waiting for a doc change
  */
-class ValidationErrorWidget extends WidgetType {
-	constructor(private result: ValidationResult) {
-		super();
+export const refreshValidationEffect = StateEffect.define<null>();
+
+/**
+ * Render the hover tooltip content for a validation error
+ */
+function renderValidationTooltip(result: ValidationResult, onFix: (fix: QuickFix) => void): HTMLElement {
+	const tooltip = document.createElement('div');
+	tooltip.className = 'frontmatter-validation-tooltip';
+	if (result.severity === 'warning') {
+		tooltip.addClass('frontmatter-validation-tooltip-warning');
 	}
 
-	toDOM(): HTMLElement {
-		const tooltip = document.createElement('div');
-		tooltip.className = 'frontmatter-validation-tooltip';
-
-		// Title
-		const title = tooltip.createDiv({ cls: 'frontmatter-validation-tooltip-title' });
-		title.createSpan({ text: '⚠️' });
-		title.createSpan({ text: 'Validation Error' });
-
-		// Error message
-		if (this.result.error) {
-			tooltip.createDiv({
-				cls: 'frontmatter-validation-tooltip-error',
-				text: this.result.error
-			});
-		}
+	// Title
+	const title = tooltip.createDiv({ cls: 'frontmatter-validation-tooltip-title' });
+	title.createSpan({ text: '⚠️' });
+	title.createSpan({ text: result.severity === 'warning' ? 'Validation Warning' : 'Validation Error' });
+
+	// Error message
+	if (result.error) {
+		tooltip.createDiv({
+			cls: 'frontmatter-validation-tooltip-error',
+			text: result.error
+		});
+	}
 
-		// Suggestion
-		if (this.result.suggestion) {
-			const suggestionBox = tooltip.createDiv({ cls: 'frontmatter-validation-tooltip-suggestion' });
-			suggestionBox.createSpan({
-				cls: 'frontmatter-validation-tooltip-suggestion-icon',
-				text: '💡'
-			});
-			suggestionBox.createSpan({
-				cls: 'frontmatter-validation-tooltip-suggestion-text',
-				text: this.result.suggestion
-			});
-		}
+	// Suggestion
+	if (result.suggestion) {
+		const suggestionBox = tooltip.createDiv({ cls: 'frontmatter-validation-tooltip-suggestion' });
+		suggestionBox.createSpan({
+			cls: 'frontmatter-validation-tooltip-suggestion-icon',
+			text: '💡'
+		});
+		suggestionBox.createSpan({
+			cls: 'frontmatter-validation-tooltip-suggestion-text',
+			text: result.suggestion
+		});
+	}
 
-		return tooltip;
+	// Quick fixes
+	if (result.fixes && result.fixes.length > 0) {
+		const fixesBox = tooltip.createDiv({ cls: 'frontmatter-validation-tooltip-fixes' });
+		for (const fix of result.fixes) {
+			const button = fixesBox.createEl('button', { text: fix.label });
+			button.onclick = () => onFix(fix);
+		}
 	}
+
+	return tooltip;
 }
 
 /**
@@ -89,21 +102,26 @@ export class ValidationDecorator {
 
 	/**
 	 * Build decorations for the current view
+	 * The validation result is kept in the decoration spec for hover tooltips
 	 */
 	buildDecorations(view: EditorView, filePath: string): DecorationSet {
 		const builder = new RangeSetBuilder<Decoration>();
 		const errors = this.getErrors(filePath);
+		const docLength = view.state.doc.length;
+
+		for (const error of [...errors].sort((a, b) => a.from - b.from)) {
+			// Skip errors that no longer fit the document
+			if (error.from >= error.to || error.to > docLength) continue;
 
-		for (const error of errors.sort((a, b) => a.from - b.from)) {
 			// Add wavy underline decoration
 			builder.add(
 				error.from,
 				error.to,
 				Decoration.mark({
-					class: 'frontmatter-validation-error',
-					attributes: {
-						title: error.result.error || 'Validation error'
-					}
+					class: error.result.severity === 'warning'
+						? 'frontmatter-validation-warning'
+						: 'frontmatter-validation-error',
+					result: error.result
 				})
 			);
 		}
@@ -115,24 +133,32 @@ export class ValidationDecorator {
 /**
  * Create a ViewPlugin for validation decorations
  */
-export function createValidationPlugin(decorator: ValidationDecorator, getFilePath: () => string | undefined) {
+export function createValidationPlugin(decorator: ValidationDecorator, getFilePath: (view: EditorView) => string | undefined) {
 	return ViewPlugin.fromClass(
 		class {
 			decorations: DecorationSet;
 
 			constructor(view: EditorView) {
-				const filePath = getFilePath();
+				const filePath = getFilePath(view);
 				this.decorations = filePath
 					? decorator.buildDecorations(view, filePath)
 					: Decoration.none;
 			}
 
 			update(update: ViewUpdate) {
-				if (update.docChanged || update.viewportChanged) {
-					const filePath = getFilePath();
+				const refreshed = update.transactions.some(tr =>
+					tr.effects.some(effect => effect.is(refreshValidationEffect))
+				);
+
+				if (refreshed) {
+					// New errors were computed - rebuild from the decorator
+					const filePath = getFilePath(update.view);
 					this.decorations = filePath
 						? decorator.buildDecorations(update.view, filePath)
 						: Decoration.none;
+				} else if (update.docChanged) {
+					// Keep existing errors in place until the next validation
+					this.decorations = this.decorations.map(update.changes);
 				}
 			}
 		},
@@ -141,3 +167,40 @@ export function createValidationPlugin(decorator: ValidationDecorator, getFilePa
 		}
 	);
 }
+
+/**
+ * Create the editor extension: wavy underline decorations plus hover tooltips
+ */
+export function createValidationExtension(decorator: ValidationDecorator): Extension {
+	const plugin = createValidationPlugin(
+		decorator,
+		(view) => view.state.field(editorInfoField, false)?.file?.path
+	);
+
+	const tooltip = hoverTooltip((view, pos) => {
+		const decorations = view.plugin(plugin)?.decorations;
+		if (!decorations) return null;
+
+		const found: { from: number; to: number; result: ValidationResult }[] = [];
+		decorations.between(pos, pos, (from, to, decoration) => {
+			found.push({ from, to, result: decoration.spec.result });
+			return false;
+		});
+		if (found.length === 0) return null;
+
+		const { from, to, result } = found[0];
+		return {
+			pos: from,
+			end: to,
+			above: true,
+			create: () => ({
+				// Replace the underlined value with the chosen fix
+				dom: renderValidationTooltip(result, (fix) => {
+					view.dispatch({ changes: { from, to, insert: fix.value } });
+				})
+			})
+		};
+	});
+
+	return [plugin, tooltip];
+}
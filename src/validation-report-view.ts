@@ -0,0 +1,192 @@
+import { ItemView, MarkdownView, Notice, TFile, WorkspaceLeaf } from 'obsidian';
+import { FrontmatterIssue } from './types';
+import { FileValidationReport, VaultValidator } from './vault-validator';
+import { QuickFixer } from './quick-fix';
+import { FrontmatterParser } from './frontmatter-parser';
+import FrontmatterSuggesterPlugin from './main';
+
+export const VIEW_TYPE_VALIDATION_REPORT = 'frontmatter-validation-report';
+
+/**
+ * Side pane listing frontmatter validation issues across the vault
+ * Grouped by file, then by rule
+ */
+export class ValidationReportView extends ItemView {
+	private plugin: FrontmatterSuggesterPlugin;
+	private reports: FileValidationReport[] = [];
+	private isRunning: boolean = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: FrontmatterSuggesterPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_VALIDATION_REPORT;
+	}
+
+	getDisplayText(): string {
+		return 'Frontmatter validation';
+	}
+
+	getIcon(): string {
+		return 'list-checks';
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Validate all notes and show the results
+	 */
+	async runValidation(): Promise<void> {
+		if (!this.plugin.validator || this.isRunning) return;
+
+		this.isRunning = true;
+		this.render();
+
+		try {
+			this.reports = await VaultValidator.validateVault(this.app, this.plugin.validator);
+		} finally {
+			this.isRunning = false;
+			this.render();
+		}
+	}
+
+	/**
+	 * Apply the auto-applicable fix of every issue that has one, then validate again
+	 */
+	async fixAll(): Promise<void> {
+		if (!this.plugin.validator || this.isRunning) return;
+
+		let fixed = 0;
+		for (const file of this.reports.map(report => report.file)) {
+			fixed += await QuickFixer.applyToFile(this.app, file, this.plugin.validator);
+		}
+		new Notice(`Fixed ${fixed} frontmatter ${fixed === 1 ? 'issue' : 'issues'}`);
+
+		await this.runValidation();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('frontmatter-report');
+
+		// Header with summary and re-run button
+		const header = contentEl.createDiv({ cls: 'frontmatter-report-header' });
+		const issueCount = this.reports.reduce((sum, report) => sum + report.issues.length, 0);
+		const summary = this.isRunning
+			? 'Validating notes...'
+			: issueCount === 0
+				? 'No issues found'
+				: `${issueCount} ${issueCount === 1 ? 'issue' : 'issues'} in ${this.reports.length} ${this.reports.length === 1 ? 'note' : 'notes'}`;
+		header.createSpan({ cls: 'frontmatter-report-summary', text: summary });
+
+		const buttons = header.createDiv({ cls: 'frontmatter-report-buttons' });
+
+		const fixableCount = this.reports.reduce(
+			(sum, report) => sum + QuickFixer.getFixable(report.issues).length,
+			0
+		);
+		if (!this.isRunning && fixableCount > 0) {
+			const fixAllButton = buttons.createEl('button', { text: `Fix all (${fixableCount})` });
+			fixAllButton.onclick = () => this.fixAll();
+		}
+
+		const rerunButton = buttons.createEl('button', { text: 'Re-run' });
+		rerunButton.disabled = this.isRunning;
+		rerunButton.onclick = () => this.runValidation();
+
+		if (this.isRunning) return;
+
+		for (const report of this.reports) {
+			this.renderFileReport(contentEl, report);
+		}
+	}
+
+	private renderFileReport(container: HTMLElement, report: FileValidationReport): void {
+		const fileEl = container.createDiv({ cls: 'frontmatter-report-file' });
+
+		const fileTitle = fileEl.createDiv({ cls: 'frontmatter-report-file-title', text: report.file.path });
+		fileTitle.onclick = () => this.openIssue(report.file, report.issues[0]);
+
+		// Group issues by rule
+		const issuesByRule: Map<string, FrontmatterIssue[]> = new Map();
+		for (const issue of report.issues) {
+			const ruleKey = issue.rule.fieldPath || '(not set)';
+			const ruleIssues = issuesByRule.get(ruleKey) || [];
+			ruleIssues.push(issue);
+			issuesByRule.set(ruleKey, ruleIssues);
+		}
+
+		for (const [rulePath, issues] of issuesByRule) {
+			fileEl.createDiv({ cls: 'frontmatter-report-rule', text: rulePath });
+
+			const list = fileEl.createEl('ul', { cls: 'frontmatter-report-issues' });
+			for (const issue of issues) {
+				const item = list.createEl('li', { cls: 'frontmatter-report-issue' });
+				item.createSpan({ cls: 'frontmatter-report-issue-line', text: `Line ${issue.line + 1}` });
+				item.createSpan({
+					cls: 'frontmatter-report-issue-value',
+					text: issue.key ? `${issue.key}: ${issue.value}` : issue.value
+				});
+				item.createDiv({
+					cls: 'frontmatter-report-issue-error',
+					text: issue.result.suggestion
+						? `${issue.result.error} (${issue.result.suggestion})`
+						: issue.result.error || 'Invalid value'
+				});
+				item.onclick = () => this.openIssue(report.file, issue);
+
+				const fix = issue.result.fixes?.[0];
+				if (fix) {
+					const fixButton = item.createEl('button', { cls: 'frontmatter-report-fix', text: fix.label });
+					fixButton.onclick = async (evt) => {
+						evt.stopPropagation();
+						await this.fixIssue(report.file, issue);
+					};
+				}
+			}
+		}
+	}
+
+	/**
+	 * Apply the first fix of a single issue, then validate again
+	 */
+	private async fixIssue(file: TFile, issue: FrontmatterIssue): Promise<void> {
+		const validator = this.plugin.validator;
+		if (!validator) return;
+
+		// Re-validate at write time so a note edited since the report isn't corrupted
+		await this.app.vault.process(file, (data) => {
+			const current = validator.validateLines(FrontmatterParser.fromText(data), file)
+				.filter(i => i.line === issue.line && i.from === issue.from && i.value === issue.value);
+			const fix = current[0]?.result.fixes?.[0];
+			return fix ? QuickFixer.applyFixToText(data, current[0], fix) : data;
+		});
+		await this.runValidation();
+	}
+
+	/**
+	 * Open the file and select the offending value
+	 */
+	private async openIssue(file: TFile, issue: FrontmatterIssue): Promise<void> {
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+
+		if (leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const from = { line: issue.line, ch: issue.from };
+			const to = { line: issue.line, ch: issue.to };
+			editor.setSelection(from, to);
+			editor.scrollIntoView({ from, to }, true);
+			editor.focus();
+		}
+	}
+}
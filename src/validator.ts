@@ -1,4 +1,6 @@
+import { moment } from 'obsidian';
 import { ValueConfig, ValidationResult, UnitConfig } from './types';
+import { DateParser, DEFAULT_DATE_FORMAT } from './date-parser';
 
 export class ValueValidator {
 	/**
@@ -32,6 +34,36 @@ export class ValueValidator {
 		}
 	}
 
+	/**
+	 * Validate a date value against a moment-style format
+	 * Surrounding quotes are ignored ("2026-10-19" and 2026-10-19 are both OK)
+	 */
+	static validateDate(value: string, format: string = DEFAULT_DATE_FORMAT): ValidationResult {
+		const unquoted = value.trim().replace(/^(["'])(.*)\1$/, '$2');
+		if (unquoted === '') {
+			return { valid: true };
+		}
+
+		if (!DateParser.isValidDate(unquoted, format)) {
+			// Reformat ISO dates or resolve phrases like "today"
+			const isoDate = moment(unquoted, moment.ISO_8601, true);
+			const fixedDate = isoDate.isValid() ? isoDate : DateParser.parse(unquoted, format)[0]?.date;
+			const fixedValue = fixedDate?.format(format);
+
+			return {
+				valid: false,
+				error: `Date does not match format "${format}"`,
+				suggestion: `Example: ${moment().format(format)}`,
+				// Reformatting an ISO date is exact; resolving a phrase depends on today
+				fixes: fixedValue
+					? [{ label: `Replace with "${fixedValue}"`, value: fixedValue, autoApplicable: isoDate.isValid() }]
+					: undefined
+			};
+		}
+
+		return { valid: true };
+	}
+
 	/**
 	 * Validate number type value
 	 */
@@ -0,0 +1,246 @@
+import { App, TAbstractFile, TFile } from 'obsidian';
+
+/**
+ * How a value was used at a field path
+ * - key: sub-key of a mapping ("Exercises: { hiking: 10km }" -> "hiking")
+ * - item: list item ("tags: [a, b]" -> "a", "b")
+ * - scalar: plain value ("status: done" -> "done")
+ */
+export type IndexedValueKind = 'key' | 'item' | 'scalar';
+
+export interface IndexedValue {
+	value: string;
+	kind: IndexedValueKind;
+	count: number;     // Number of notes using this value
+	lastUsed: number;  // Latest modification time (ms) of a note using this value
+}
+
+interface FileContribution {
+	path: string;              // Field path, e.g., "Habits Yestoday.Exercises"
+	kind: IndexedValueKind;
+	value: string;
+}
+
+/**
+ * Vault-wide index of frontmatter keys and values by field path
+ * Built once from the metadata cache, then updated per file
+ */
+export class ValueIndex {
+	private app: App;
+	// field path -> "kind:value" -> file path -> mtime
+	private entries: Map<string, Map<string, Map<string, number>>> = new Map();
+	// file path -> contributions, used to remove a file's values on update
+	private fileContributions: Map<string, FileContribution[]> = new Map();
+	// file path -> position in note order (see getNoteOrder)
+	private fileOrder: Map<string, number> = new Map();
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Rebuild the index from all markdown files
+	 */
+	rebuild(): void {
+		this.entries.clear();
+		this.fileContributions.clear();
+		this.fileOrder.clear();
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.addFile(file);
+		}
+	}
+
+	/**
+	 * Re-index a single file (created or modified)
+	 */
+	updateFile(file: TFile): void {
+		this.removeFile(file.path);
+		this.addFile(file);
+	}
+
+	/**
+	 * Move a file's entries to its new path
+	 */
+	renameFile(file: TAbstractFile, oldPath: string): void {
+		this.removeFile(oldPath);
+		if (file instanceof TFile) {
+			this.addFile(file);
+		}
+	}
+
+	/**
+	 * Remove a file's entries from the index
+	 */
+	removeFile(filePath: string): void {
+		const contributions = this.fileContributions.get(filePath);
+		if (!contributions) return;
+
+		for (const contribution of contributions) {
+			const pathEntries = this.entries.get(contribution.path);
+			const entryKey = `${contribution.kind}:${contribution.value}`;
+			const usages = pathEntries?.get(entryKey);
+			if (!pathEntries || !usages) continue;
+
+			usages.delete(filePath);
+			if (usages.size === 0) {
+				pathEntries.delete(entryKey);
+			}
+			if (pathEntries.size === 0) {
+				this.entries.delete(contribution.path);
+			}
+		}
+
+		this.fileContributions.delete(filePath);
+		this.fileOrder.delete(filePath);
+	}
+
+	/**
+	 * Get values used at a field path, ranked by recency and frequency
+	 * Values only used in the excluded file (usually the note being edited) are skipped
+	 */
+	getValues(fieldPath: string, excludeFilePath?: string): IndexedValue[] {
+		const pathEntries = this.entries.get(fieldPath);
+		if (!pathEntries) return [];
+
+		const result: IndexedValue[] = [];
+		for (const [entryKey, usages] of pathEntries) {
+			let count = 0;
+			let lastUsed = 0;
+			for (const [filePath, mtime] of usages) {
+				if (filePath === excludeFilePath) continue;
+				count++;
+				lastUsed = Math.max(lastUsed, mtime);
+			}
+			if (count === 0) continue;
+
+			const separatorIndex = entryKey.indexOf(':');
+			result.push({
+				kind: entryKey.substring(0, separatorIndex) as IndexedValueKind,
+				value: entryKey.substring(separatorIndex + 1),
+				count,
+				lastUsed
+			});
+		}
+
+		const now = Date.now();
+		return result.sort((a, b) => this.score(b, now) - this.score(a, now));
+	}
+
+	/**
+	 * Get the plain value at a field path in the note before the current one (see getNoteOrder)
+	 * Without a current note, the value of the last note in order
+	 */
+	getPreviousValue(fieldPath: string, currentFile?: TFile | null): string | undefined {
+		const pathEntries = this.entries.get(fieldPath);
+		if (!pathEntries) return undefined;
+
+		const currentOrder = currentFile ? this.getNoteOrder(currentFile) : Infinity;
+		let previous: string | undefined;
+		let previousOrder = -Infinity;
+		for (const [entryKey, usages] of pathEntries) {
+			if (!entryKey.startsWith('scalar:')) continue;
+			for (const filePath of usages.keys()) {
+				const order = this.fileOrder.get(filePath) ?? -Infinity;
+				if (filePath !== currentFile?.path && order < currentOrder && order > previousOrder) {
+					previous = entryKey.substring('scalar:'.length);
+					previousOrder = order;
+				}
+			}
+		}
+		return previous;
+	}
+
+	/**
+	 * Get all field paths seen in the vault
+	 */
+	getFieldPaths(): string[] {
+		return Array.from(this.entries.keys()).sort();
+	}
+
+	/**
+	 * Frecency score: usage count, decaying by age (halves every 30 days)
+	 */
+	private score(entry: IndexedValue, now: number): number {
+		const ageDays = Math.max(0, now - entry.lastUsed) / (24 * 60 * 60 * 1000);
+		return entry.count * Math.pow(0.5, ageDays / 30);
+	}
+
+	/**
+	 * Position of a note in time: the date in its name ("2026-10-19", daily notes), else its creation time
+	 * Editing an old note doesn't move it
+	 */
+	private getNoteOrder(file: TFile): number {
+		const date = file.basename.match(/(\d{4})-(\d{2})-(\d{2})/);
+		return date
+			? new Date(parseInt(date[1], 10), parseInt(date[2], 10) - 1, parseInt(date[3], 10)).getTime()
+			: file.stat.ctime;
+	}
+
+	private addFile(file: TFile): void {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) return;
+
+		const contributions: FileContribution[] = [];
+		this.collect(frontmatter, [], contributions);
+
+		// Count each value once per file
+		const seen: Set<string> = new Set();
+		const unique = contributions.filter(contribution => {
+			const id = `${contribution.path}\n${contribution.kind}:${contribution.value}`;
+			if (seen.has(id)) return false;
+			seen.add(id);
+			return true;
+		});
+
+		for (const contribution of unique) {
+			let pathEntries = this.entries.get(contribution.path);
+			if (!pathEntries) {
+				pathEntries = new Map();
+				this.entries.set(contribution.path, pathEntries);
+			}
+
+			const entryKey = `${contribution.kind}:${contribution.value}`;
+			let usages = pathEntries.get(entryKey);
+			if (!usages) {
+				usages = new Map();
+				pathEntries.set(entryKey, usages);
+			}
+			usages.set(file.path, file.stat.mtime);
+		}
+
+		this.fileContributions.set(file.path, unique);
+		this.fileOrder.set(file.path, this.getNoteOrder(file));
+	}
+
+	/**
+	 * Walk a frontmatter value and collect keys/values by field path
+	 */
+	private collect(value: any, path: string[], contributions: FileContribution[]): void {
+		if (value === null || value === undefined) return;
+
+		const fieldPath = path.join('.');
+
+		if (Array.isArray(value)) {
+			if (path.length === 0) return;
+			for (const item of value) {
+				if (this.isScalar(item)) {
+					contributions.push({ path: fieldPath, kind: 'item', value: String(item) });
+				}
+			}
+		} else if (typeof value === 'object') {
+			for (const key of Object.keys(value)) {
+				if (path.length > 0) {
+					contributions.push({ path: fieldPath, kind: 'key', value: key });
+				}
+				this.collect(value[key], [...path, key], contributions);
+			}
+		} else if (path.length > 0 && this.isScalar(value) && String(value).trim() !== '') {
+			contributions.push({ path: fieldPath, kind: 'scalar', value: String(value) });
+		}
+	}
+
+	private isScalar(value: any): boolean {
+		return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+	}
+}
@@ -1,23 +1,33 @@
-import { Editor, EditorPosition, MarkdownView, Notice, editorViewField } from 'obsidian';
-import { FieldRule, PluginSettings } from './types';
+import { App, Editor, EditorPosition, MarkdownView, TFile } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { FieldRule, FrontmatterIssue, LineSource, PluginSettings } from './types';
 import { FrontmatterParser } from './frontmatter-parser';
 import { ValueValidator } from './validator';
+import { DEFAULT_DATE_FORMAT } from './date-parser';
 import { OptionValidator } from './option-validator';
-import { ValidationDecorator, ValidationError } from './validation-decorator';
+import { UnitConverter } from './unit-converter';
+import { FieldPathMatcher } from './field-path-matcher';
+import { ValidationDecorator, ValidationError, refreshValidationEffect } from './validation-decorator';
+import { RuleScopeMatcher } from './rule-scope';
 
 export class ValueValidatorExtension {
+	private app: App;
 	private settings: PluginSettings;
 	private validationTimeouts: Map<string, NodeJS.Timeout> = new Map();
 	private decorator: ValidationDecorator;
 	private lastValidatedContent: Map<string, string> = new Map();
+	private unitConverter: UnitConverter;
 
-	constructor(settings: PluginSettings) {
+	constructor(app: App, settings: PluginSettings) {
+		this.app = app;
 		this.settings = settings;
 		this.decorator = new ValidationDecorator();
+		this.unitConverter = new UnitConverter(settings.customUnits);
 	}
 
 	updateSettings(settings: PluginSettings) {
 		this.settings = settings;
+		this.unitConverter = new UnitConverter(settings.customUnits);
 	}
 
 	/**
@@ -31,6 +41,7 @@ export class ValueValidatorExtension {
 		if (!FrontmatterParser.isInFrontmatter(cursor, editor)) {
 			if (view.file) {
 				this.decorator.clearErrors(view.file.path);
+				this.refreshDecorations(editor);
 			}
 			return;
 		}
@@ -47,17 +58,18 @@ export class ValueValidatorExtension {
 		this.lastValidatedContent.set(contentKey, content);
 
 		// Validate all frontmatter values
-		const errors = this.validateAllFrontmatter(editor);
+		const errors = this.validateAllFrontmatter(editor, view.file);
 
 		// Update decorations
 		if (view.file) {
 			this.decorator.setErrors(view.file.path, errors);
+			this.refreshDecorations(editor);
 		}
 
-		// Show toast for errors on current line only
+		// Show toast for errors on current line only (warnings are underlined only)
 		const currentLineErrors = errors.filter(error => {
 			const errorPos = editor.offsetToPos(error.from);
-			return errorPos.line === cursor.line;
+			return errorPos.line === cursor.line && error.result.severity !== 'warning';
 		});
 
 		if (currentLineErrors.length > 0) {
@@ -68,32 +80,63 @@ export class ValueValidatorExtension {
 	/**
 	 * Validate all frontmatter values and return errors
 	 */
-	private validateAllFrontmatter(editor: Editor): ValidationError[] {
-		const errors: ValidationError[] = [];
-		const lineCount = editor.lineCount();
+	private validateAllFrontmatter(editor: Editor, file: TFile | null): ValidationError[] {
+		return this.validateLines(editor, file).map(issue => ({
+			from: editor.posToOffset({ line: issue.line, ch: issue.from }),
+			to: editor.posToOffset({ line: issue.line, ch: issue.to }),
+			result: issue.result
+		}));
+	}
 
-		for (let line = 0; line < lineCount; line++) {
-			const pos: EditorPosition = { line, ch: 0 };
+	/**
+	 * Validate all frontmatter values of a document (editor or note text)
+	 * Runs option-level validation, falling back to rule-level validation
+	 * With a file, only rules whose scope matches the note are used
+	 * Non-canonical units are warned about per the global setting, unless overridden
+	 */
+	validateLines(lines: LineSource, file?: TFile | null, warnNonCanonicalUnits?: boolean): FrontmatterIssue[] {
+		const issues: FrontmatterIssue[] = [];
+		const bounds = FrontmatterParser.getFrontmatterBounds(lines);
+		if (!bounds) {
+			return issues;
+		}
 
-			// Check if in frontmatter
-			if (!FrontmatterParser.isInFrontmatter(pos, editor)) {
-				continue;
-			}
+		const scopeContext = file ? RuleScopeMatcher.getContext(this.app, file, lines) : null;
+		const rules = RuleScopeMatcher.getApplicableRules(this.settings, scopeContext);
+		const unitCheck = {
+			converter: this.unitConverter,
+			warnNonCanonical: warnNonCanonicalUnits ?? this.settings.globalSettings.warnNonCanonicalUnits !== false
+		};
+
+		for (let line = bounds.start + 1; line < bounds.end; line++) {
+			const pos: EditorPosition = { line, ch: 0 };
 
 			// Get field context
-			const fieldContext = FrontmatterParser.getCurrentFieldPath(pos, editor);
+			const fieldContext = FrontmatterParser.getCurrentFieldPath(pos, lines);
 			if (!fieldContext) {
 				continue;
 			}
 
 			// Find matching rule
-			const matchingRule = this.findMatchingRule(fieldContext.path);
-			if (!matchingRule || !matchingRule.enabled) {
+			const match = FieldPathMatcher.findMatchingRule(rules, fieldContext.path);
+			if (!match) {
+				continue;
+			}
+			const matchingRule = match.rule;
+
+			// Date rules validate the property value itself (scalar or list item)
+			if (matchingRule.sourceType === 'date') {
+				if (fieldContext.path === match.path) {
+					const dateIssue = this.validateDateLine(lines, line, matchingRule);
+					if (dateIssue) {
+						issues.push(dateIssue);
+					}
+				}
 				continue;
 			}
 
 			// Check if this is a value line
-			const currentLine = editor.getLine(line);
+			const currentLine = lines.getLine(line);
 			const colonIndex = currentLine.indexOf(':');
 
 			if (colonIndex === -1) {
@@ -115,7 +158,7 @@ export class ValueValidatorExtension {
 			let result;
 			if (matchingOption && matchingOption.type) {
 				// Use option-level validation
-				result = OptionValidator.validate(valuePart, matchingOption);
+				result = OptionValidator.validate(valuePart, matchingOption, unitCheck);
 			} else if (matchingRule.valueConfig) {
 				// Fallback to legacy value-level validation
 				result = ValueValidator.validate(valuePart, matchingRule.valueConfig);
@@ -127,18 +170,61 @@ export class ValueValidatorExtension {
 			if (!result.valid) {
 				// Calculate character positions for the value
 				const valueStart = currentLine.indexOf(valuePart, colonIndex);
-				const from = editor.posToOffset({ line, ch: valueStart });
-				const to = editor.posToOffset({ line, ch: valueStart + valuePart.length });
 
-				errors.push({
-					from,
-					to,
+				issues.push({
+					rule: matchingRule,
+					line,
+					from: valueStart,
+					to: valueStart + valuePart.length,
+					key: keyPart,
+					value: valuePart,
 					result
 				});
 			}
 		}
 
-		return errors;
+		return issues;
+	}
+
+	/**
+	 * Number values that can be converted to their option's canonical unit (and stay valid)
+	 */
+	findUnitNormalizations(lines: LineSource, file?: TFile | null): FrontmatterIssue[] {
+		return this.validateLines(lines, file, true)
+			.filter(issue => issue.result.fixes?.[0]?.unitConversion && issue.result.fixes[0].autoApplicable);
+	}
+
+	/**
+	 * Validate the date on a line like "due: 2026-10-19" or "  - 2026-10-19"
+	 */
+	private validateDateLine(lines: LineSource, line: number, rule: FieldRule): FrontmatterIssue | null {
+		const currentLine = lines.getLine(line);
+
+		let valueStart = FrontmatterParser.getListItemValueStart(currentLine);
+		let key: string | undefined;
+		if (valueStart === -1) {
+			const colonIndex = currentLine.indexOf(':');
+			if (colonIndex === -1) return null;
+			valueStart = colonIndex + 1;
+			key = currentLine.substring(0, colonIndex).trim();
+		}
+
+		const valuePart = currentLine.substring(valueStart).trim();
+		if (!valuePart) return null;
+
+		const result = ValueValidator.validateDate(valuePart, rule.dateConfig?.format || DEFAULT_DATE_FORMAT);
+		if (result.valid) return null;
+
+		const from = currentLine.indexOf(valuePart, valueStart);
+		return {
+			rule,
+			line,
+			from,
+			to: from + valuePart.length,
+			key,
+			value: valuePart,
+			result
+		};
 	}
 
 	/**
@@ -164,24 +250,12 @@ export class ValueValidatorExtension {
 	}
 
 	/**
-	 * Find matching rule for a field path
+	 * Tell the editor's validation plugin to rebuild its decorations
 	 */
-	private findMatchingRule(fieldPath: string): FieldRule | null {
-		// Check exact match
-		for (const rule of this.settings.rules) {
-			if (rule.fieldPath === fieldPath) {
-				return rule;
-			}
-		}
-
-		// Check if fieldPath is under a parent field
-		for (const rule of this.settings.rules) {
-			if (fieldPath.startsWith(rule.fieldPath + '.')) {
-				return rule;
-			}
-		}
-
-		return null;
+	private refreshDecorations(editor: Editor): void {
+		// Obsidian exposes the CodeMirror view as `editor.cm`
+		const editorView = (editor as any).cm as EditorView | undefined;
+		editorView?.dispatch({ effects: refreshValidationEffect.of(null) });
 	}
 
 	/**
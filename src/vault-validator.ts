@@ -0,0 +1,35 @@
+import { App, TFile } from 'obsidian';
+import { FrontmatterIssue } from './types';
+import { FrontmatterParser } from './frontmatter-parser';
+import { ValueValidatorExtension } from './value-validator-extension';
+
+export interface FileValidationReport {
+	file: TFile;
+	issues: FrontmatterIssue[];
+}
+
+/**
+ * Validate frontmatter across all notes in the vault
+ */
+export class VaultValidator {
+	/**
+	 * Run all enabled rules against every markdown file
+	 * Only files with issues are returned, sorted by path
+	 */
+	static async validateVault(app: App, validator: ValueValidatorExtension): Promise<FileValidationReport[]> {
+		const reports: FileValidationReport[] = [];
+
+		for (const file of app.vault.getMarkdownFiles()) {
+			const content = await app.vault.cachedRead(file);
+			// Skip notes without frontmatter
+			if (!content.startsWith('---')) continue;
+
+			const issues = validator.validateLines(FrontmatterParser.fromText(content), file);
+			if (issues.length > 0) {
+				reports.push({ file, issues });
+			}
+		}
+
+		return reports.sort((a, b) => a.file.path.localeCompare(b.file.path));
+	}
+}